@@ -1,6 +1,6 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract GiftCardFHE is SepoliaConfig {
@@ -13,6 +13,7 @@ contract GiftCardFHE is SepoliaConfig {
     uint256 public cooldownSeconds;
     mapping(address => uint256) public lastSubmissionTime;
     mapping(address => uint256) public lastDecryptionRequestTime;
+    mapping(address => uint256) public defaultValidityPeriod; // issuer -> seconds, 0 = cards never expire
 
     uint256 public currentBatchId;
     bool public batchOpen;
@@ -20,6 +21,8 @@ contract GiftCardFHE is SepoliaConfig {
     struct GiftCard {
         euint32 encryptedBalance;
         uint256 lastUsedBatchId;
+        uint256 expiresAt; // 0 = never expires
+        address holder; // may user-decrypt the balance alongside the provider that last changed it
     }
     mapping(uint256 => GiftCard) public giftCards; // tokenId -> GiftCard
 
@@ -27,6 +30,7 @@ contract GiftCardFHE is SepoliaConfig {
         uint256 batchId;
         bytes32 stateHash;
         bool processed;
+        uint256 tokenId;
     }
     mapping(uint256 => DecryptionContext) public decryptionContexts;
 
@@ -38,9 +42,10 @@ contract GiftCardFHE is SepoliaConfig {
     event CooldownSecondsSet(uint256 oldCooldownSeconds, uint256 newCooldownSeconds);
     event BatchOpened(uint256 batchId);
     event BatchClosed(uint256 batchId);
-    event CardIssued(uint256 indexed tokenId, uint256 batchId);
+    event DefaultValidityPeriodSet(address indexed provider, uint256 oldValidityPeriod, uint256 newValidityPeriod);
+    event CardIssued(uint256 indexed tokenId, address indexed holder, uint256 batchId, uint256 expiresAt);
     event CardToppedUp(uint256 indexed tokenId, uint256 batchId);
-    event CardRedeemed(uint256 indexed tokenId, uint256 batchId, uint256 encryptedAmountToRedeem);
+    event CardRedeemed(uint256 indexed tokenId, uint256 batchId, uint256 encryptedAmountToRedeem, uint256 encryptedApproved);
     event DecryptionRequested(uint256 indexed requestId, uint256 batchId);
     event DecryptionCompleted(uint256 indexed requestId, uint256 batchId, uint256 decryptedBalance);
 
@@ -54,6 +59,9 @@ contract GiftCardFHE is SepoliaConfig {
     error ReplayAttempt();
     error StateMismatch();
     error DecryptionFailed();
+    error CardExpired();
+    error InvalidExpiry();
+    error InvalidHolder();
 
     modifier onlyOwner() {
         if (msg.sender != owner) revert NotOwner();
@@ -119,6 +127,12 @@ contract GiftCardFHE is SepoliaConfig {
         emit CooldownSecondsSet(oldCooldownSeconds, newCooldownSeconds);
     }
 
+    function setDefaultValidityPeriod(uint256 newValidityPeriod) public onlyProvider {
+        uint256 oldValidityPeriod = defaultValidityPeriod[msg.sender];
+        defaultValidityPeriod[msg.sender] = newValidityPeriod;
+        emit DefaultValidityPeriodSet(msg.sender, oldValidityPeriod, newValidityPeriod);
+    }
+
     function openBatch() public onlyProvider whenNotPaused {
         if (batchOpen) revert InvalidBatchState();
         currentBatchId++;
@@ -132,45 +146,61 @@ contract GiftCardFHE is SepoliaConfig {
         emit BatchClosed(currentBatchId);
     }
 
-    function issueCard(uint256 tokenId, euint32 encryptedInitialBalance) public onlyProvider whenNotPaused respectCooldown(msg.sender, lastSubmissionTime) {
+    // @dev expiresAt = 0 applies the issuer's defaultValidityPeriod (which may itself be 0, i.e. no expiry).
+    function issueCard(uint256 tokenId, address holder, externalEuint32 encryptedInitialBalance, bytes calldata inputProof, uint256 expiresAt) public onlyProvider whenNotPaused respectCooldown(msg.sender, lastSubmissionTime) {
         if (!batchOpen) revert InvalidBatchState();
-        _initIfNeeded(encryptedInitialBalance);
+        if (holder == address(0)) revert InvalidHolder();
+        euint32 initialBalance = FHE.fromExternal(encryptedInitialBalance, inputProof);
+        _initIfNeeded(initialBalance);
         if (giftCards[tokenId].encryptedBalance.isInitialized()) {
             revert CardNotFound(); // Token ID already exists
         }
 
-        giftCards[tokenId] = GiftCard({ encryptedBalance: encryptedInitialBalance, lastUsedBatchId: currentBatchId });
+        if (expiresAt == 0 && defaultValidityPeriod[msg.sender] != 0) {
+            expiresAt = block.timestamp + defaultValidityPeriod[msg.sender];
+        } else if (expiresAt != 0 && expiresAt <= block.timestamp) {
+            revert InvalidExpiry();
+        }
+
+        giftCards[tokenId] = GiftCard({ encryptedBalance: initialBalance, lastUsedBatchId: currentBatchId, expiresAt: expiresAt, holder: holder });
+        _allowBalance(tokenId);
         lastSubmissionTime[msg.sender] = block.timestamp;
-        emit CardIssued(tokenId, currentBatchId);
+        emit CardIssued(tokenId, holder, currentBatchId, expiresAt);
     }
 
-    function topUpCard(uint256 tokenId, euint32 encryptedAmount) public onlyProvider whenNotPaused respectCooldown(msg.sender, lastSubmissionTime) {
+    function topUpCard(uint256 tokenId, externalEuint32 encryptedAmount, bytes calldata inputProof) public onlyProvider whenNotPaused respectCooldown(msg.sender, lastSubmissionTime) {
         if (!batchOpen) revert InvalidBatchState();
         _requireInitialized(giftCards[tokenId].encryptedBalance);
-        _initIfNeeded(encryptedAmount);
+        euint32 amount = FHE.fromExternal(encryptedAmount, inputProof);
+        _initIfNeeded(amount);
 
-        giftCards[tokenId].encryptedBalance = giftCards[tokenId].encryptedBalance.add(encryptedAmount);
+        giftCards[tokenId].encryptedBalance = giftCards[tokenId].encryptedBalance.add(amount);
         giftCards[tokenId].lastUsedBatchId = currentBatchId;
+        _allowBalance(tokenId);
         lastSubmissionTime[msg.sender] = block.timestamp;
         emit CardToppedUp(tokenId, currentBatchId);
     }
 
-    function redeemFromCard(uint256 tokenId, euint32 encryptedAmountToRedeem) public onlyProvider whenNotPaused respectCooldown(msg.sender, lastSubmissionTime) {
+    function redeemFromCard(uint256 tokenId, externalEuint32 encryptedAmount, bytes calldata inputProof) public onlyProvider whenNotPaused respectCooldown(msg.sender, lastSubmissionTime) {
         if (!batchOpen) revert InvalidBatchState();
         _requireInitialized(giftCards[tokenId].encryptedBalance);
+        if (isExpired(tokenId)) revert CardExpired();
+        euint32 encryptedAmountToRedeem = FHE.fromExternal(encryptedAmount, inputProof);
         _initIfNeeded(encryptedAmountToRedeem);
 
-        // Check if amountToRedeem > balance (encrypted comparison)
-        ebool amountGtBalance = encryptedAmountToRedeem.ge(giftCards[tokenId].encryptedBalance);
-        // If amountToRedeem > balance, this will revert due to invalid FHE operation or explicit check
-        // For this example, we assume valid inputs or rely on FHE library's behavior.
-        // A robust implementation might use FHE.le and an if statement to revert cleanly.
-        // For now, we proceed, and an invalid subtraction would be caught by the FHE library or result in unexpected behavior.
+        // @dev The comparison cannot revert on ciphertexts, so an amount above the balance debits
+        // nothing instead of wrapping around. The submitting provider may decrypt `approved` to
+        // learn whether the charge went through.
+        ebool approved = encryptedAmountToRedeem.le(giftCards[tokenId].encryptedBalance);
+        euint32 debit = FHE.select(approved, encryptedAmountToRedeem, FHE.asEuint32(0));
+        FHE.allowThis(approved);
+        FHE.allow(approved, msg.sender);
 
-        giftCards[tokenId].encryptedBalance = giftCards[tokenId].encryptedBalance.sub(encryptedAmountToRedeem);
+        giftCards[tokenId].encryptedBalance = giftCards[tokenId].encryptedBalance.sub(debit);
         giftCards[tokenId].lastUsedBatchId = currentBatchId;
+        _allowBalance(tokenId);
         lastSubmissionTime[msg.sender] = block.timestamp;
-        emit CardRedeemed(tokenId, currentBatchId, FHE.toBytes32(encryptedAmountToRedeem));
+        emit CardRedeemed(tokenId, currentBatchId, uint256(FHE.toBytes32(encryptedAmountToRedeem)), uint256(FHE.toBytes32(approved)));
     }
 
     function getCardBalance(uint256 tokenId) public view returns (euint32) {
@@ -178,6 +208,12 @@ contract GiftCardFHE is SepoliaConfig {
         return giftCards[tokenId].encryptedBalance;
     }
 
+    // @dev Same rule as isExpired in the SDK: a card is expired from the second its expiry is reached.
+    function isExpired(uint256 tokenId) public view returns (bool) {
+        uint256 expiresAt = giftCards[tokenId].expiresAt;
+        return expiresAt != 0 && block.timestamp >= expiresAt;
+    }
+
     function requestCardBalanceDecryption(uint256 tokenId) public onlyProvider whenNotPaused respectCooldown(msg.sender, lastDecryptionRequestTime) {
         _requireInitialized(giftCards[tokenId].encryptedBalance);
 
@@ -187,7 +223,7 @@ contract GiftCardFHE is SepoliaConfig {
         bytes32 stateHash = _hashCiphertexts(cts);
 
         uint256 requestId = FHE.requestDecryption(cts, this.myCallback.selector);
-        decryptionContexts[requestId] = DecryptionContext({ batchId: currentBatchId, stateHash: stateHash, processed: false });
+        decryptionContexts[requestId] = DecryptionContext({ batchId: currentBatchId, stateHash: stateHash, processed: false, tokenId: tokenId });
         lastDecryptionRequestTime[msg.sender] = block.timestamp;
         emit DecryptionRequested(requestId, currentBatchId);
     }
@@ -198,41 +234,11 @@ contract GiftCardFHE is SepoliaConfig {
             revert ReplayAttempt();
         }
 
-        // @dev State verification: Rebuild the ciphertexts array from current contract storage
-        // in the exact same order as when requestDecryption was called.
-        // This ensures that the state of the contract relevant to the decryption request
-        // has not changed since the request was made.
+        // @dev State verification: rebuild the ciphertext array from the requested card's current
+        // balance, in the same order as in requestCardBalanceDecryption. Any top-up or redemption
+        // since the request changes the handle, so a stale cleartext is rejected.
         bytes32[] memory cts = new bytes32[](1);
-        // The tokenId is not stored in DecryptionContext, so this simplified example assumes
-        // the context implicitly refers to a specific card or the state is reconstructible.
-        // For a multi-card system, the tokenId would need to be part of DecryptionContext.
-        // Here, we assume the single ciphertext corresponds to the card whose balance was requested.
-        // This is a simplification; a real system would need to store which card's balance this request is for.
-        // For this example, let's assume `tokenId` is implicitly known or the context is for a generic balance check.
-        // If this contract were to support multiple cards, the tokenId would need to be stored in DecryptionContext.
-        // For now, this example will not be able to perfectly reconstruct the state for a specific card
-        // without storing the tokenId in the context. This is a limitation of this simplified example.
-        // We'll proceed with the assumption that the single ciphertext is for "the" card being checked.
-        // A more robust implementation would store `tokenId` in `DecryptionContext`.
-        // Since we can't get the tokenId here, this part is illustrative of the pattern but not fully functional for multiple cards.
-        // Let's assume for this callback, we are checking a "generic" balance or the context implies the card.
-        // The state hash check will fail if the underlying data changed, which is the key security property.
-
-        // Re-calculating stateHash based on current storage (simplified for this example)
-        // In a real scenario, you'd fetch the specific card's balance based on info from DecryptionContext
-        // For this example, we'll assume the state is just the one ciphertext from the request.
-        // This means if *any* card balance changed, this check might pass incorrectly if not careful.
-        // The stateHash must be rebuilt from the *exact same data* that was hashed initially.
-        // This requires storing enough information in DecryptionContext to rebuild `cts` correctly.
-        // For this simplified example, we'll use the original `stateHash` from the context for comparison,
-        // and the `cts` array here is a placeholder. The critical part is `currentHash == decryptionContexts[requestId].stateHash`.
-        // If the contract state (e.g. the specific card's balance ciphertext) changed, the re-calculated hash would differ.
-        // The actual reconstruction of `cts` needs to be precise.
-        // Let's assume `decryptionContexts[requestId]` implicitly refers to a specific card, and its ciphertext is used.
-        // For this example, we'll use a placeholder `euint32` to demonstrate the hash check.
-        // This is a known simplification for this example.
-        euint32 currentBalance = giftCards[0].encryptedBalance; // Example: assuming tokenId 0
-        cts[0] = FHE.toBytes32(currentBalance);
+        cts[0] = FHE.toBytes32(giftCards[decryptionContexts[requestId].tokenId].encryptedBalance);
         bytes32 currentHash = _hashCiphertexts(cts);
 
         if (currentHash != decryptionContexts[requestId].stateHash) {
@@ -248,16 +254,20 @@ contract GiftCardFHE is SepoliaConfig {
         emit DecryptionCompleted(requestId, decryptionContexts[requestId].batchId, decryptedBalance);
     }
 
-    function _hashCiphertexts(bytes32[] memory cts) internal pure returns (bytes32) {
+    // @dev Every new balance handle must be re-granted: the contract needs it for the next
+    // homomorphic operation, and the submitting provider and the card holder need it for user decryption.
+    function _allowBalance(uint256 tokenId) internal {
+        FHE.allowThis(giftCards[tokenId].encryptedBalance);
+        FHE.allow(giftCards[tokenId].encryptedBalance, msg.sender);
+        FHE.allow(giftCards[tokenId].encryptedBalance, giftCards[tokenId].holder);
+    }
+
+    function _hashCiphertexts(bytes32[] memory cts) internal view returns (bytes32) {
         return keccak256(abi.encode(cts, address(this)));
     }
 
     function _initIfNeeded(euint32 value) internal view {
         if (!value.isInitialized()) {
-            // This is a placeholder. In a real FHE scheme, you might need to initialize with a default encrypted value.
-            // For Zama's FHEVM, FHE.asEuint32(0) would typically be used for initialization if needed.
-            // The FHE library handles uninitialized values appropriately in operations.
-            // This check is more for explicit developer awareness.
             revert("FHE value not initialized. Use FHE.asEuint32 to initialize.");
         }
     }
@@ -0,0 +1,261 @@
+// deploy/bootstrap.ts
+import fs from "fs";
+import path from "path";
+import { load } from "js-yaml";
+import { ContractTransactionReceipt, getAddress, isAddress } from "ethers";
+
+import { GiftCardClient } from "../src";
+
+export const BOOTSTRAP_DIR = path.join(__dirname, "bootstrap");
+
+// Desired post-deploy state. Anything left out is not touched, so a file that
+// only lists providers never resets the cooldown or the owner.
+export interface BootstrapConfig {
+  // Granted the provider role; existing providers not listed keep it.
+  providers: string[];
+  // Revoked the provider role, e.g. the deployer once the real issuers exist.
+  removeProviders: string[];
+  cooldownSeconds?: bigint;
+  // Applied last, since every other change needs the deployer to still own the contract.
+  owner?: string;
+  // Opens batch 1 if no batch was ever opened; a later batch is never reopened.
+  openFirstBatch: boolean;
+}
+
+export class BootstrapConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BootstrapConfigError";
+  }
+}
+
+interface BootstrapChange {
+  description: string;
+  // Everything but opening the batch, which any provider may do.
+  ownerOnly: boolean;
+  apply: () => Promise<ContractTransactionReceipt>;
+}
+
+export interface BootstrapSummary {
+  applied: { description: string; transactionHash: string }[];
+  unchanged: string[];
+}
+
+function fail(file: string, key: string, expected: string, value: unknown) {
+  return new BootstrapConfigError(
+    `${file}: ${key} must be ${expected}, got ${JSON.stringify(value)}`,
+  );
+}
+
+function addresses(file: string, key: string, value: unknown): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw fail(file, key, "a list", value);
+  return value.map((entry, i) => {
+    if (typeof entry !== "string" || !isAddress(entry)) {
+      throw fail(file, `${key}[${i}]`, "an address", entry);
+    }
+    return getAddress(entry);
+  });
+}
+
+// Parses a .json, .yml or .yaml bootstrap file. Unknown keys are rejected so a
+// misspelt setting fails the run instead of being silently skipped.
+export function readBootstrapConfig(file: string): BootstrapConfig {
+  const text = fs.readFileSync(file, "utf-8");
+  const name = path.basename(file);
+  const json: unknown = /\.ya?ml$/i.test(file) ? load(text) : JSON.parse(text);
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    throw new BootstrapConfigError(
+      `${name}: expected a mapping at the top level`,
+    );
+  }
+  const known = [
+    "providers",
+    "removeProviders",
+    "cooldownSeconds",
+    "owner",
+    "openFirstBatch",
+  ];
+  const values = json as Record<string, unknown>;
+  for (const key of Object.keys(values)) {
+    if (!known.includes(key)) {
+      throw new BootstrapConfigError(`${name}: unknown key ${key}`);
+    }
+  }
+
+  const providers = addresses(name, "providers", values.providers);
+  const removeProviders = addresses(
+    name,
+    "removeProviders",
+    values.removeProviders,
+  );
+  const both = providers.find((provider) => removeProviders.includes(provider));
+  if (both) {
+    throw new BootstrapConfigError(
+      `${name}: ${both} is in both providers and removeProviders`,
+    );
+  }
+
+  const { cooldownSeconds, owner, openFirstBatch } = values;
+  if (
+    cooldownSeconds !== undefined &&
+    !(Number.isSafeInteger(cooldownSeconds) && (cooldownSeconds as number) >= 0)
+  ) {
+    throw fail(
+      name,
+      "cooldownSeconds",
+      "a non-negative integer",
+      cooldownSeconds,
+    );
+  }
+  if (owner !== undefined && !(typeof owner === "string" && isAddress(owner))) {
+    throw fail(name, "owner", "an address", owner);
+  }
+  if (openFirstBatch !== undefined && typeof openFirstBatch !== "boolean") {
+    throw fail(name, "openFirstBatch", "true or false", openFirstBatch);
+  }
+
+  return {
+    providers,
+    removeProviders,
+    cooldownSeconds:
+      cooldownSeconds === undefined
+        ? undefined
+        : BigInt(cooldownSeconds as number),
+    owner: owner === undefined ? undefined : getAddress(owner as string),
+    openFirstBatch: openFirstBatch ?? false,
+  };
+}
+
+// BOOTSTRAP_FILE wins; otherwise deploy/bootstrap/<chainId>.{yml,yaml,json} is
+// used if present. Returns null when the chain has no bootstrap file.
+export function findBootstrapFile(chainId: number): string | null {
+  if (process.env.BOOTSTRAP_FILE)
+    return path.resolve(process.env.BOOTSTRAP_FILE);
+  for (const extension of ["yml", "yaml", "json"]) {
+    const file = path.join(BOOTSTRAP_DIR, `${chainId}.${extension}`);
+    if (fs.existsSync(file)) return file;
+  }
+  return null;
+}
+
+// Compares `config` with the contract and returns only the writes still
+// needed, in an order that keeps each one permitted: providers are added
+// before the batch is opened, and ownership moves last.
+async function planBootstrap(
+  client: GiftCardClient,
+  config: BootstrapConfig,
+  unchanged: string[],
+): Promise<BootstrapChange[]> {
+  const changes: BootstrapChange[] = [];
+
+  for (const provider of config.providers) {
+    if (await client.isProvider(provider)) {
+      unchanged.push(`${provider} is already a provider`);
+    } else {
+      changes.push({
+        description: `add provider ${provider}`,
+        ownerOnly: true,
+        apply: () => client.addProvider(provider),
+      });
+    }
+  }
+
+  if (config.cooldownSeconds !== undefined) {
+    const current = await client.cooldownSeconds();
+    if (current === config.cooldownSeconds) {
+      unchanged.push(`cooldown is already ${current}s`);
+    } else {
+      const seconds = config.cooldownSeconds;
+      changes.push({
+        description: `set cooldown from ${current}s to ${seconds}s`,
+        ownerOnly: true,
+        apply: () => client.setCooldownSeconds(seconds),
+      });
+    }
+  }
+
+  if (config.openFirstBatch) {
+    const { currentBatchId, batchOpen } = await client.getBatchState();
+    if (currentBatchId > 0n) {
+      unchanged.push(
+        `batch ${currentBatchId} was already opened${batchOpen ? "" : " and closed"}`,
+      );
+    } else {
+      changes.push({
+        description: "open batch 1",
+        ownerOnly: false,
+        apply: () => client.openBatch(),
+      });
+    }
+  }
+
+  for (const provider of config.removeProviders) {
+    if (await client.isProvider(provider)) {
+      changes.push({
+        description: `remove provider ${provider}`,
+        ownerOnly: true,
+        apply: () => client.removeProvider(provider),
+      });
+    } else {
+      unchanged.push(`${provider} is already not a provider`);
+    }
+  }
+
+  if (config.owner !== undefined) {
+    const current = getAddress(await client.owner());
+    if (current === config.owner) {
+      unchanged.push(`owner is already ${current}`);
+    } else {
+      const owner = config.owner;
+      changes.push({
+        description: `transfer ownership from ${current} to ${owner}`,
+        ownerOnly: true,
+        apply: () => client.transferOwnership(owner),
+      });
+    }
+  }
+
+  return changes;
+}
+
+// Brings the contract behind `client` to the state in `config`. Safe to rerun:
+// settings that already match are reported as unchanged and cost no gas.
+export async function applyBootstrap(
+  client: GiftCardClient,
+  config: BootstrapConfig,
+  signer: string,
+): Promise<BootstrapSummary> {
+  const summary: BootstrapSummary = { applied: [], unchanged: [] };
+  const changes = await planBootstrap(client, config, summary.unchanged);
+  if (changes.length === 0) return summary;
+
+  const ownerChanges = changes.filter((change) => change.ownerOnly);
+  const owner = getAddress(await client.owner());
+  if (ownerChanges.length > 0 && owner !== getAddress(signer)) {
+    throw new Error(
+      `Bootstrap needs ${ownerChanges.length} owner-only change(s) but ${signer} is not the owner (${owner}): ` +
+        ownerChanges.map((change) => change.description).join(", "),
+    );
+  }
+  for (const change of changes) {
+    const receipt = await change.apply();
+    summary.applied.push({
+      description: change.description,
+      transactionHash: receipt.hash,
+    });
+  }
+  return summary;
+}
+
+export function printBootstrapSummary(summary: BootstrapSummary): void {
+  console.log(
+    `Bootstrap: ${summary.applied.length} change(s) applied, ${summary.unchanged.length} already in place`,
+  );
+  for (const { description, transactionHash } of summary.applied) {
+    console.log(`  applied:   ${description} (${transactionHash})`);
+  }
+  for (const description of summary.unchanged) {
+    console.log(`  unchanged: ${description}`);
+  }
+}
@@ -0,0 +1,82 @@
+// deploy/frontend.ts
+import fs from "fs";
+import path from "path";
+
+import { DEFAULT_CURRENCY, NetworkConfig, assertNetworkRegistry } from "../src";
+import { DeploymentManifest } from "./manifest";
+
+const FRONTEND_DIR = path.join(__dirname, "..", "frontend", "web");
+export const FRONTEND_NETWORKS_PATH = path.join(
+  FRONTEND_DIR,
+  "public",
+  "networks.json",
+);
+export const FRONTEND_ABI_DIR = path.join(FRONTEND_DIR, "src", "abi");
+
+interface ContractArtifact {
+  contractName: string;
+  sourceName: string;
+  abi: unknown[];
+}
+
+// Entry for a chain networks.json does not know yet. The operator fills in
+// the explorer and FHE endpoints; until then the app can read but not encrypt.
+const newNetworkEntry = (
+  manifest: DeploymentManifest,
+  rpcUrl: string,
+): NetworkConfig => ({
+  chainId: manifest.chainId,
+  name: manifest.network,
+  nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+  rpcUrls: [rpcUrl],
+  contracts: {
+    giftCard: {
+      address: manifest.address,
+      deployBlock: manifest.blockNumber,
+      currency: DEFAULT_CURRENCY,
+    },
+  },
+});
+
+// Points the frontend at the deployment in `manifest` and replaces its copy of
+// the ABI. Only the manifest's chain changes in networks.json; the result is
+// validated before anything is written. Returns the files written.
+export function syncFrontend(
+  manifest: DeploymentManifest,
+  artifact: ContractArtifact,
+  rpcUrl: string,
+): string[] {
+  const registry = JSON.parse(fs.readFileSync(FRONTEND_NETWORKS_PATH, "utf-8"));
+  const existing = registry.networks?.[manifest.chainId];
+  registry.networks = {
+    ...registry.networks,
+    [manifest.chainId]: existing
+      ? {
+          ...existing,
+          contracts: {
+            ...existing.contracts,
+            giftCard: {
+              ...existing.contracts?.giftCard,
+              address: manifest.address,
+              deployBlock: manifest.blockNumber,
+            },
+          },
+        }
+      : newNetworkEntry(manifest, rpcUrl),
+  };
+  assertNetworkRegistry(registry);
+
+  const abiPath = path.join(FRONTEND_ABI_DIR, `${artifact.contractName}.json`);
+  const frontendArtifact = {
+    _format: "hh-sol-artifact-1",
+    contractName: artifact.contractName,
+    sourceName: artifact.sourceName,
+    abi: artifact.abi,
+  };
+  fs.writeFileSync(
+    FRONTEND_NETWORKS_PATH,
+    JSON.stringify(registry, null, 2) + "\n",
+  );
+  fs.writeFileSync(abiPath, JSON.stringify(frontendArtifact, null, 2) + "\n");
+  return [FRONTEND_NETWORKS_PATH, abiPath];
+}
@@ -0,0 +1,63 @@
+// deploy/ledger.ts
+import fs from "fs";
+import path from "path";
+
+import { DEPLOYMENTS_DIR, DeploymentManifest } from "./manifest";
+import type { SignerSource } from "./signer";
+
+interface LedgerRecord {
+  // Wall-clock time the entry was written, ISO 8601.
+  recordedAt: string;
+  signerSource: SignerSource;
+}
+
+export interface DeployedEntry extends DeploymentManifest, LedgerRecord {
+  status: "deployed";
+  // Decimal strings, since JSON has no bigint.
+  gasUsed: string;
+  effectiveGasPrice: string;
+}
+
+// A deployment that never produced a contract. The transaction hash is there
+// when it was sent but reverted or was not mined.
+export interface FailedEntry
+  extends Omit<
+      DeploymentManifest,
+      "address" | "transactionHash" | "blockNumber" | "blockTimestamp"
+    >,
+    LedgerRecord {
+  status: "failed";
+  transactionHash?: string;
+  error: string;
+}
+
+export type LedgerEntry = DeployedEntry | FailedEntry;
+
+// One JSON object per line, oldest first. Entries are only ever appended, so
+// the file doubles as an audit trail of every deploy against the chain.
+export const ledgerPath = (chainId: number) =>
+  path.join(DEPLOYMENTS_DIR, String(chainId), "ledger.jsonl");
+
+export function appendLedgerEntry(entry: LedgerEntry): string {
+  const file = ledgerPath(entry.chainId);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.appendFileSync(file, JSON.stringify(entry) + "\n");
+  return file;
+}
+
+export function readLedger(chainId: number): LedgerEntry[] {
+  const file = ledgerPath(chainId);
+  if (!fs.existsSync(file)) return [];
+  return fs
+    .readFileSync(file, "utf-8")
+    .split("\n")
+    .map((line, i) => {
+      if (line.trim() === "") return null;
+      try {
+        return JSON.parse(line) as LedgerEntry;
+      } catch (error) {
+        throw new Error(`${file}:${i + 1} is not valid JSON: ${error}`);
+      }
+    })
+    .filter((entry): entry is LedgerEntry => entry !== null);
+}
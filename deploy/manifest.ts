@@ -0,0 +1,69 @@
+// deploy/manifest.ts
+import fs from "fs";
+import path from "path";
+import { keccak256, toUtf8Bytes } from "ethers";
+
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "deployments");
+
+// Solc version and the settings that affect the bytecode, copied from the
+// build info so the deployment can be reproduced and verified later.
+export interface CompilerSettings {
+  version: string;
+  optimizer: { enabled: boolean; runs: number };
+  viaIR: boolean;
+  evmVersion: string;
+  bytecodeHash: string;
+}
+
+// Everything in a manifest comes from the chain or the build info, so
+// rerunning the deploy against the same deployment rewrites the same file.
+export interface DeploymentManifest {
+  contractName: string;
+  chainId: number;
+  network: string;
+  address: string;
+  transactionHash: string;
+  blockNumber: number;
+  // Seconds, from the deployment block.
+  blockTimestamp: number;
+  deployer: string;
+  compiler: CompilerSettings;
+  abiHash: string;
+  // keccak256 of the runtime bytecode; equals the on-chain code hash because
+  // metadata hashing is off and the contract has no immutables.
+  deployedBytecodeHash: string;
+}
+
+export const manifestPath = (chainId: number, contractName: string) =>
+  path.join(DEPLOYMENTS_DIR, String(chainId), `${contractName}.json`);
+
+// Key order is fixed so that equal ABIs hash equally however they were loaded.
+export function abiHash(abi: unknown[]): string {
+  const canonical = (value: unknown): unknown =>
+    Array.isArray(value)
+      ? value.map(canonical)
+      : value && typeof value === "object"
+        ? Object.fromEntries(
+            Object.keys(value)
+              .sort()
+              .map((key) => [key, canonical((value as any)[key])]),
+          )
+        : value;
+  return keccak256(toUtf8Bytes(JSON.stringify(canonical(abi))));
+}
+
+export function readManifest(
+  chainId: number,
+  contractName: string,
+): DeploymentManifest | null {
+  const file = manifestPath(chainId, contractName);
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, "utf-8")) as DeploymentManifest;
+}
+
+export function writeManifest(manifest: DeploymentManifest): string {
+  const file = manifestPath(manifest.chainId, manifest.contractName);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(manifest, null, 2) + "\n");
+  return file;
+}
@@ -0,0 +1,127 @@
+// deploy/signer.ts
+import fs from "fs";
+import path from "path";
+import readline from "readline";
+import { Writable } from "stream";
+import { ethers as hardhatEthers, network } from "hardhat";
+import { HDNodeWallet, Provider, Signer, Wallet } from "ethers";
+
+export const DEFAULT_DERIVATION_PATH = "m/44'/60'/0'/0/0";
+
+// Where the deployer key came from, for the log line; never the key itself.
+export type SignerSource = "env" | "keystore" | "mnemonic" | "hardhat";
+
+export interface DeployerSigner {
+  signer: Signer;
+  address: string;
+  source: SignerSource;
+  description: string;
+}
+
+// Reads a line without echoing it, for keystore passwords.
+async function askHidden(prompt: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    throw new Error(
+      `Cannot prompt for "${prompt.trim()}" without a terminal; set DEPLOYER_KEYSTORE_PASSWORD`,
+    );
+  }
+  let muted = false;
+  const output = new Writable({
+    write(chunk, encoding, callback) {
+      if (!muted) process.stdout.write(chunk, encoding);
+      callback();
+    },
+  });
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output,
+    terminal: true,
+  });
+  return new Promise<string>((resolve) => {
+    rl.question(prompt, (answer) => {
+      rl.close();
+      process.stdout.write("\n");
+      resolve(answer);
+    });
+    muted = true;
+  });
+}
+
+async function keystoreSigner(
+  file: string,
+  provider: Provider,
+): Promise<Signer> {
+  const json = fs.readFileSync(file, "utf-8");
+  const password =
+    process.env.DEPLOYER_KEYSTORE_PASSWORD ??
+    (await askHidden(`Password for ${path.basename(file)}: `));
+  const wallet = await Wallet.fromEncryptedJson(json, password);
+  return wallet.connect(provider);
+}
+
+// An index into the accounts hardhat.config.ts gives the selected network.
+async function hardhatSigner(): Promise<Signer> {
+  const index = Number(process.env.DEPLOYER_ACCOUNT_INDEX ?? 0);
+  const signers = await hardhatEthers.getSigners();
+  if (!Number.isSafeInteger(index) || index < 0 || index >= signers.length) {
+    throw new Error(
+      signers.length === 0
+        ? `No deployer key for --network ${network.name}. Set one of DEPLOYER_PRIVATE_KEY, ` +
+          `DEPLOYER_KEYSTORE or DEPLOYER_MNEMONIC, or configure accounts for ${network.name} in hardhat.config.ts`
+        : `DEPLOYER_ACCOUNT_INDEX ${process.env.DEPLOYER_ACCOUNT_INDEX} is out of range; ` +
+          `${network.name} has ${signers.length} configured account(s)`,
+    );
+  }
+  return signers[index];
+}
+
+// Picks the deployer from the environment. At most one of DEPLOYER_PRIVATE_KEY,
+// DEPLOYER_KEYSTORE and DEPLOYER_MNEMONIC may be set; with none, the accounts
+// hardhat.config.ts configures for the selected network are used.
+export async function loadDeployerSigner(
+  provider: Provider,
+): Promise<DeployerSigner> {
+  const {
+    DEPLOYER_PRIVATE_KEY,
+    DEPLOYER_KEYSTORE,
+    DEPLOYER_MNEMONIC,
+    DEPLOYER_DERIVATION_PATH,
+  } = process.env;
+  const configured = [
+    DEPLOYER_PRIVATE_KEY && "DEPLOYER_PRIVATE_KEY",
+    DEPLOYER_KEYSTORE && "DEPLOYER_KEYSTORE",
+    DEPLOYER_MNEMONIC && "DEPLOYER_MNEMONIC",
+  ].filter(Boolean);
+  if (configured.length > 1) {
+    throw new Error(
+      `Set only one deployer key source, got ${configured.join(" and ")}`,
+    );
+  }
+
+  let signer: Signer;
+  let source: SignerSource;
+  let description: string;
+  if (DEPLOYER_PRIVATE_KEY) {
+    signer = new Wallet(DEPLOYER_PRIVATE_KEY.trim(), provider);
+    source = "env";
+    description = "DEPLOYER_PRIVATE_KEY";
+  } else if (DEPLOYER_KEYSTORE) {
+    signer = await keystoreSigner(DEPLOYER_KEYSTORE, provider);
+    source = "keystore";
+    description = `keystore ${DEPLOYER_KEYSTORE}`;
+  } else if (DEPLOYER_MNEMONIC) {
+    const derivationPath = DEPLOYER_DERIVATION_PATH ?? DEFAULT_DERIVATION_PATH;
+    signer = HDNodeWallet.fromPhrase(
+      DEPLOYER_MNEMONIC.trim(),
+      undefined,
+      derivationPath,
+    ).connect(provider);
+    source = "mnemonic";
+    description = `mnemonic at ${derivationPath}`;
+  } else {
+    signer = await hardhatSigner();
+    source = "hardhat";
+    description = `hardhat account ${process.env.DEPLOYER_ACCOUNT_INDEX ?? 0} of ${network.name}`;
+  }
+  return { signer, address: await signer.getAddress(), source, description };
+}
@@ -1,77 +1,112 @@
 // App.tsx
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
-import React, { useEffect, useState } from "react";
-import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import React, { useEffect, useMemo, useState } from "react";
+import { isAddress } from "ethers";
+import { EncryptedInput, GiftCardClient, MAX_UINT32, NO_EXPIRY, SECONDS_PER_DAY, encryptUint32, formatFailure, topUpRisk } from "../../../src";
+import { canUserDecrypt, getClientReadOnly, getClientWithSigner } from "./contract";
+import { giftCardDeployment } from "./networks";
+import { BalanceObservation, GiftCard, buildGiftCards, expiryLabel } from "./cards";
+import { StoredEvent, syncEvents } from "./indexer";
+import { SubscriptionStatus, subscribeToContractEvents } from "./subscriptions";
+import { getFhevmInstance } from "./fhe";
+import { formatUnits, parseUserAmount } from "./currency";
+import LegacyMigration from "./components/LegacyMigration";
+import CooldownBanner from "./components/CooldownBanner";
+import CooldownButton from "./components/CooldownButton";
+import { useCooldown } from "./useCooldown";
+import { useRole } from "./useRole";
+import DecryptionTracker from "./components/DecryptionTracker";
+import BulkTopUpModal from "./components/BulkTopUpModal";
+import ExpiryPanel from "./components/ExpiryPanel";
+import {
+  TrackedDecryption, decryptionObservations, followDecryption, loadTrackedDecryptions, removeTrackedDecryption,
+  retryTrackedDecryption, saveTrackedDecryption, trackDecryptionRequest
+} from "./decryptionRequests";
+import BatchPanel from "./components/BatchPanel";
+import { buildBatchReports } from "./batches";
 import "./App.css";
-import { useAccount, useSignMessage } from 'wagmi';
-
-interface GiftCard {
-  id: string;
-  encryptedBalance: string;
-  timestamp: number;
-  owner: string;
-  status: "active" | "redeemed" | "expired";
-  lastRedeemed?: number;
-}
+import { useAccount } from 'wagmi';
+import { Link, useNavigate, useParams } from 'react-router-dom';
 
-const FHEEncryptNumber = (value: number): string => {
-  return `FHE-${btoa(value.toString())}`;
-};
+interface ContractState {
+  currentBatchId: number;
+  batchOpen: boolean;
+  paused: boolean;
+}
 
-const FHEDecryptNumber = (encryptedData: string): number => {
-  if (encryptedData.startsWith('FHE-')) {
-    return parseFloat(atob(encryptedData.substring(4)));
-  }
-  return parseFloat(encryptedData);
+const generateTokenId = (): bigint => {
+  const random = crypto.getRandomValues(new Uint32Array(1))[0];
+  return (BigInt(Date.now()) << 32n) | BigInt(random);
 };
 
-const FHECompute = (encryptedData: string, operation: string, amount?: number): string => {
-  const value = FHEDecryptNumber(encryptedData);
-  let result = value;
-  
-  switch(operation) {
-    case 'redeem':
-      if (amount && value >= amount) {
-        result = value - amount;
-      }
-      break;
-    case 'add':
-      if (amount) {
-        result = value + amount;
-      }
-      break;
-    default:
-      result = value;
-  }
-  
-  return FHEEncryptNumber(result);
-};
+// Folds batch and pause events into the contract state instead of re-reading it from the chain.
+const applyStateEvents = (state: ContractState, events: StoredEvent[]): ContractState =>
+  events.reduce((next, event) => {
+    switch (event.name) {
+      case "BatchOpened": return { ...next, currentBatchId: Number(event.args.batchId), batchOpen: true };
+      case "BatchClosed": return { ...next, batchOpen: false };
+      case "Paused": return { ...next, paused: true };
+      case "Unpaused": return { ...next, paused: false };
+      default: return next;
+    }
+  }, state);
 
-const generatePublicKey = () => `0x${Array(2000).fill(0).map(() => Math.floor(Math.random() * 16).toString(16)).join('')}`;
+// Accepts the decimal ids used in links as well as 0x hex, and returns the decimal form cards are keyed by.
+const normalizeTokenId = (value: string) => /^(0x[0-9a-fA-F]+|\d+)$/.test(value) ? BigInt(value).toString() : value;
 
 const App: React.FC = () => {
   const { address, isConnected } = useAccount();
-  const { signMessageAsync } = useSignMessage();
+  const navigate = useNavigate();
+  const { tokenId: routeTokenId } = useParams<{ tokenId?: string }>();
   const [loading, setLoading] = useState(true);
-  const [cards, setCards] = useState<GiftCard[]>([]);
+  const [history, setHistory] = useState<StoredEvent[]>([]);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+  // Balances decrypted in this session, alongside the persisted public decryptions.
+  const [userObservations, setUserObservations] = useState<BalanceObservation[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creating, setCreating] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ visible: false, status: "pending", message: "" });
-  const [newCardData, setNewCardData] = useState({ initialBalance: 0 });
-  const [selectedCard, setSelectedCard] = useState<GiftCard | null>(null);
-  const [decryptedBalance, setDecryptedBalance] = useState<number | null>(null);
+  const [newCardData, setNewCardData] = useState({ initialBalance: "", expiresOn: "", holder: "" });
+  const [defaultValidityPeriod, setDefaultValidityPeriod] = useState(0);
+  const [encryptedPreview, setEncryptedPreview] = useState<(EncryptedInput & { units: bigint }) | null>(null);
+  const [isEncryptingPreview, setIsEncryptingPreview] = useState(false);
+  const [decryptedBalance, setDecryptedBalance] = useState<bigint | null>(null);
   const [isDecrypting, setIsDecrypting] = useState(false);
-  const [publicKey, setPublicKey] = useState<string>("");
-  const [contractAddress, setContractAddress] = useState<string>("");
-  const [chainId, setChainId] = useState<number>(0);
-  const [startTimestamp, setStartTimestamp] = useState<number>(0);
-  const [durationDays, setDurationDays] = useState<number>(30);
   const [searchTerm, setSearchTerm] = useState("");
   const [filterStatus, setFilterStatus] = useState<"all" | "active" | "redeemed" | "expired">("all");
   const [redeemAmount, setRedeemAmount] = useState("");
+  const [topUpAmount, setTopUpAmount] = useState("");
+  const initialBalance = parseUserAmount(newCardData.initialBalance);
+  const parsedTopUp = parseUserAmount(topUpAmount);
+  const parsedRedeem = parseUserAmount(redeemAmount);
+  // Uses the decrypted balance when the provider has revealed it, otherwise only flags very large top-ups.
+  const topUpWarning = (() => {
+    if (parsedTopUp.units === null) return null;
+    const risk = topUpRisk(parsedTopUp.units, decryptedBalance ?? undefined);
+    if (!risk) return null;
+    return risk.kind === "overflow"
+      ? `This top-up would wrap the encrypted balance: the card can take at most ${formatUnits(MAX_UINT32 - (decryptedBalance ?? 0n))} more.`
+      : `The encrypted sum wraps if the card already holds more than ${formatUnits(risk.maxSafeBalance)}.`;
+  })();
+  const [decryptions, setDecryptions] = useState<TrackedDecryption[]>(loadTrackedDecryptions);
+  const cards = useMemo(
+    () => buildGiftCards(history, [...decryptionObservations(decryptions), ...userObservations], now),
+    [history, decryptions, userObservations, now]
+  );
+  const [selectedHandle, setSelectedHandle] = useState<string | null>(null);
+  const [canDecryptSelected, setCanDecryptSelected] = useState(false);
+  // The card detail is driven by /cards/:tokenId so it can be linked to and bookmarked.
+  const selectedTokenId = routeTokenId ? normalizeTokenId(routeTokenId) : null;
+  const selectedCard = selectedTokenId ? cards.find(c => c.id === selectedTokenId) ?? null : null;
+  const openCard = (card: GiftCard) => navigate(`/cards/${card.id}`);
+  const closeCard = () => navigate("/cards");
+  const [contractState, setContractState] = useState<ContractState>({ currentBatchId: 0, batchOpen: false, paused: false });
+  const { isOwner, isProvider } = useRole(address);
+  const [liveStatus, setLiveStatus] = useState<SubscriptionStatus>("connecting");
+  const cooldown = useCooldown(isProvider ? address : undefined);
+  const [showBulkTopUp, setShowBulkTopUp] = useState(false);
 
   const activeCount = cards.filter(c => c.status === "active").length;
   const redeemedCount = cards.filter(c => c.status === "redeemed").length;
@@ -79,164 +114,249 @@ const App: React.FC = () => {
 
   useEffect(() => {
     loadCards().finally(() => setLoading(false));
-    const initSignatureParams = async () => {
-      const contract = await getContractReadOnly();
-      if (contract) setContractAddress(await contract.getAddress());
-      if (window.ethereum) {
-        const chainIdHex = await window.ethereum.request({ method: 'eth_chainId' });
-        setChainId(parseInt(chainIdHex, 16));
-      }
-      setStartTimestamp(Math.floor(Date.now() / 1000));
-      setDurationDays(30);
-      setPublicKey(generatePublicKey());
+  }, []);
+
+  useEffect(() => subscribeToContractEvents({
+    onEvents: (events, history) => {
+      setContractState(state => applyStateEvents(state, events));
+      showHistory(history);
+    },
+    onStatus: setLiveStatus
+  }), []);
+
+  useEffect(() => {
+    if (!address || !isProvider) { setDefaultValidityPeriod(0); return; }
+    const loadValidityPeriod = async () => {
+      const client = await getClientReadOnly();
+      if (client) setDefaultValidityPeriod(await client.getDefaultValidityPeriod(address));
     };
-    initSignatureParams();
+    loadValidityPeriod().catch(e => console.error("Error loading default validity period:", e));
+  }, [address, isProvider]);
+
+  // Cards can expire while the page is open without any event being emitted.
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 60000);
+    return () => clearInterval(timer);
   }, []);
 
+  useEffect(() => setDecryptedBalance(null), [selectedTokenId]);
+
+  useEffect(() => {
+    setSelectedHandle(null);
+    if (!selectedCard) return;
+    const loadHandle = async () => {
+      const client = await getClientReadOnly();
+      if (!client) return;
+      setSelectedHandle(await client.getBalanceHandle(selectedCard.id));
+    };
+    loadHandle().catch(e => console.error("Error loading card balance handle:", e));
+    // Top-ups and redemptions replace the handle; the counters change with them.
+  }, [selectedCard?.id, selectedCard?.topUpCount, selectedCard?.redemptionCount]);
+
+  useEffect(() => {
+    setCanDecryptSelected(false);
+    if (!selectedHandle || !address) return;
+    let cancelled = false;
+    canUserDecrypt(selectedHandle, address)
+      .then(allowed => { if (!cancelled) setCanDecryptSelected(allowed); })
+      .catch(e => console.error("Error checking decryption access:", e));
+    return () => { cancelled = true; };
+  }, [selectedHandle, address]);
+
+  useEffect(() => {
+    const units = initialBalance.units;
+    if (!showCreateModal || !address || units === null || units === 0n) {
+      setEncryptedPreview(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsEncryptingPreview(true);
+      try {
+        const encrypted = await encryptUint32(await getFhevmInstance(), giftCardDeployment().address, address, units);
+        if (!cancelled) setEncryptedPreview({ ...encrypted, units });
+      } catch (e) {
+        console.error("Encryption preview failed:", e);
+        if (!cancelled) setEncryptedPreview(null);
+      } finally {
+        if (!cancelled) setIsEncryptingPreview(false);
+      }
+    }, 600);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [showCreateModal, address, initialBalance.units]);
+
+  const loadContractState = async (client: GiftCardClient) => {
+    const [batch, paused] = await Promise.all([client.getBatchState(), client.isPaused()]);
+    const state = { currentBatchId: Number(batch.currentBatchId), batchOpen: batch.batchOpen, paused };
+    setContractState(state);
+    return state;
+  };
+
+  const showHistory = (events: StoredEvent[]) => setHistory(events);
+
   const loadCards = async () => {
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) {
-        console.log("Contract is not available");
-        return;
-      }
+      const client = await getClientReadOnly();
+      if (!client) return;
 
-      const keysBytes = await contract.getData("giftcard_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try {
-          const keysStr = ethers.toUtf8String(keysBytes);
-          if (keysStr.trim() !== '') keys = JSON.parse(keysStr);
-        } catch (e) { console.error("Error parsing gift card keys:", e); }
-      }
-      
-      const list: GiftCard[] = [];
-      for (const key of keys) {
-        try {
-          const cardBytes = await contract.getData(`giftcard_${key}`);
-          if (cardBytes.length > 0) {
-            try {
-              const cardData = JSON.parse(ethers.toUtf8String(cardBytes));
-              list.push({ 
-                id: key, 
-                encryptedBalance: cardData.balance, 
-                timestamp: cardData.timestamp, 
-                owner: cardData.owner, 
-                status: cardData.status || "active",
-                lastRedeemed: cardData.lastRedeemed
-              });
-            } catch (e) { console.error(`Error parsing card data for ${key}:`, e); }
-          }
-        } catch (e) { console.error(`Error loading card ${key}:`, e); }
-      }
-      list.sort((a, b) => b.timestamp - a.timestamp);
-      setCards(list);
+      await loadContractState(client);
+      showHistory(await syncEvents(client, giftCardDeployment().deployBlock));
     } catch (e) { console.error("Error loading cards:", e); } 
     finally { setIsRefreshing(false); setLoading(false); }
   };
 
+  // Issuance, top-up and redemption all revert unless the sender is a provider and a batch is open.
+  // Top-ups and redemptions also need the card to exist, which getCardBalance reports.
+  const assertCanSubmit = async (tokenId?: string) => {
+    const client = await getClientReadOnly();
+    if (!client) throw new Error("GiftCardFHE contract not available");
+    if (!(await client.isProvider(address!))) throw new Error("Connected wallet is not an authorized provider");
+    const state = await loadContractState(client);
+    if (state.paused) throw new Error("Contract is paused");
+    if (!state.batchOpen) throw new Error("No batch is open");
+    if (tokenId !== undefined) await client.requireCard(tokenId);
+  };
+
+  const pendingMessage = (message: string) =>
+    cooldown.submissionRemaining > 0 || cooldown.queued.length > 0
+      ? "Queued: sending when the provider cooldown ends..."
+      : message;
+
   const createCard = async () => {
-    if (!isConnected) { alert("Please connect wallet first"); return; }
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
     setCreating(true);
-    setTransactionStatus({ visible: true, status: "pending", message: "Encrypting balance with Zama FHE..." });
+    setTransactionStatus({ visible: true, status: "pending", message: pendingMessage("Encrypting balance with Zama FHE...") });
     try {
-      const encryptedBalance = FHEEncryptNumber(newCardData.initialBalance);
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      
-      const cardId = `card-${Date.now()}-${Math.random().toString(36).substring(2, 6)}`;
-      const cardData = { 
-        balance: encryptedBalance, 
-        timestamp: Math.floor(Date.now() / 1000), 
-        owner: address, 
-        status: "active" 
-      };
-      
-      await contract.setData(`giftcard_${cardId}`, ethers.toUtf8Bytes(JSON.stringify(cardData)));
-      
-      const keysBytes = await contract.getData("giftcard_keys");
-      let keys: string[] = [];
-      if (keysBytes.length > 0) {
-        try { keys = JSON.parse(ethers.toUtf8String(keysBytes)); } 
-        catch (e) { console.error("Error parsing keys:", e); }
-      }
-      keys.push(cardId);
-      await contract.setData("giftcard_keys", ethers.toUtf8Bytes(JSON.stringify(keys)));
+      const units = initialBalance.units;
+      if (units === null || units === 0n) throw new Error(initialBalance.error ?? "Enter an initial balance");
+      // The chosen date is valid through its last second in the user's timezone.
+      const expiresAt = newCardData.expiresOn
+        ? Math.floor(new Date(`${newCardData.expiresOn}T23:59:59`).getTime() / 1000)
+        : NO_EXPIRY;
+      if (expiresAt !== NO_EXPIRY && expiresAt <= Date.now() / 1000) throw new Error("The expiry date must be in the future");
+      // An empty holder issues the card to the connected wallet.
+      const holder = newCardData.holder.trim() || address;
+      if (!holder || !isAddress(holder)) throw new Error("Enter the card holder's wallet address");
+      // Reuse the ciphertext shown in the preview so the submitted handle is the one the user saw.
+      const input = encryptedPreview && encryptedPreview.units === units
+        ? encryptedPreview
+        : units;
+
+      await cooldown.enqueue("submission", `Issue card (${formatUnits(units)})`, async () => {
+        await assertCanSubmit();
+        const client = await getClientWithSigner();
+        setTransactionStatus({ visible: true, status: "pending", message: "Issuing encrypted card on-chain..." });
+        return client.issueCard(generateTokenId(), holder, input, expiresAt);
+      });
       
       setTransactionStatus({ visible: true, status: "success", message: "FHE-encrypted gift card created!" });
       await loadCards();
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
         setShowCreateModal(false);
-        setNewCardData({ initialBalance: 0 });
+        setNewCardData({ initialBalance: "", expiresOn: "", holder: "" });
+        setEncryptedPreview(null);
       }, 2000);
     } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction") 
-        ? "Transaction rejected by user" 
-        : "Creation failed: " + (e.message || "Unknown error");
+      const errorMessage = "Creation failed: " + formatFailure(e);
       setTransactionStatus({ visible: true, status: "error", message: errorMessage });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     } finally { setCreating(false); }
   };
 
-  const redeemCard = async (cardId: string, amount: number) => {
-    if (!isConnected) { alert("Please connect wallet first"); return; }
-    setTransactionStatus({ visible: true, status: "pending", message: "Processing FHE redemption..." });
+  // Checks run when the queued operation is sent, since batch and pause state may change while it waits.
+  const submitEncryptedAmount = async (tokenId: string, units: bigint, operation: "topUp" | "redeem") => {
+    const label = `${operation === "redeem" ? "Redeem" : "Top up"} ${formatUnits(units)} on #${tokenId.substring(0, 8)}`;
+    await cooldown.enqueue("submission", label, async () => {
+      await assertCanSubmit(tokenId);
+      const client = await getClientWithSigner();
+      return operation === "redeem"
+        ? client.redeemFromCard(tokenId, units)
+        : client.topUpCard(tokenId, units);
+    });
+  };
+
+  const redeemCard = async (cardId: string, units: bigint) => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: pendingMessage("Processing FHE redemption...") });
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) throw new Error("Failed to get contract");
-      
-      const cardBytes = await contract.getData(`giftcard_${cardId}`);
-      if (cardBytes.length === 0) throw new Error("Card not found");
-      
-      const cardData = JSON.parse(ethers.toUtf8String(cardBytes));
-      if (cardData.status !== "active") throw new Error("Card is not active");
-      
-      const newBalance = FHECompute(cardData.balance, 'redeem', amount);
-      const newStatus = FHEDecryptNumber(newBalance) <= 0 ? "redeemed" : "active";
-      
-      const contractWithSigner = await getContractWithSigner();
-      if (!contractWithSigner) throw new Error("Failed to get contract with signer");
-      
-      const updatedCard = { 
-        ...cardData, 
-        balance: newBalance,
-        status: newStatus,
-        lastRedeemed: Math.floor(Date.now() / 1000)
-      };
-      
-      await contractWithSigner.setData(`giftcard_${cardId}`, ethers.toUtf8Bytes(JSON.stringify(updatedCard)));
+      await submitEncryptedAmount(cardId, units, "redeem");
       
       setTransactionStatus({ visible: true, status: "success", message: "FHE redemption completed!" });
       await loadCards();
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
     } catch (e: any) {
-      setTransactionStatus({ visible: true, status: "error", message: "Redemption failed: " + (e.message || "Unknown error") });
+      setTransactionStatus({ visible: true, status: "error", message: "Redemption failed: " + formatFailure(e) });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const topUpCard = async (cardId: string, units: bigint) => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    setTransactionStatus({ visible: true, status: "pending", message: pendingMessage("Encrypting top-up amount...") });
+    try {
+      await submitEncryptedAmount(cardId, units, "topUp");
+
+      setTransactionStatus({ visible: true, status: "success", message: "FHE top-up completed!" });
+      await loadCards();
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Top-up failed: " + formatFailure(e) });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    }
+  };
+
+  const follow = (entry: TrackedDecryption) => {
+    setDecryptions(saveTrackedDecryption(entry));
+    followDecryption(entry).then(() => setDecryptions(loadTrackedDecryptions()));
+  };
+
+  // Pending requests keep their original deadline, so a reload resumes waiting rather than restarting it.
+  useEffect(() => {
+    loadTrackedDecryptions().filter(entry => entry.status === "pending").forEach(follow);
+  }, []);
+
+  // Public decryption publishes the balance in a DecryptionCompleted event for anyone to read.
+  const requestPublicDecryption = async (card: GiftCard) => {
+    if (!isConnected || !address) { alert("Please connect wallet first"); return; }
+    if (!window.confirm("The card balance will be published on-chain in clear. Continue?")) return;
+    setTransactionStatus({ visible: true, status: "pending", message: cooldown.decryptionRemaining > 0
+      ? "Queued: sending when the decryption cooldown ends..."
+      : "Requesting public decryption..." });
+    try {
+      const request = await cooldown.enqueue("decryption", `Public decryption of #${card.id.substring(0, 8)}`, async () => {
+        const client = await getClientWithSigner();
+        return client.requestBalanceDecryption(card.id);
+      });
+      follow(trackDecryptionRequest(card.id, request));
+      setTransactionStatus({ visible: true, status: "success", message: "Decryption requested; waiting for the oracle" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Decryption request failed: " + formatFailure(e) });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     }
   };
 
-  const decryptWithSignature = async (encryptedData: string): Promise<number | null> => {
+  const decryptWithSignature = async (card: GiftCard): Promise<bigint | null> => {
     if (!isConnected) { alert("Please connect wallet first"); return null; }
     setIsDecrypting(true);
     try {
-      const message = `publickey:${publicKey}\ncontractAddresses:${contractAddress}\ncontractsChainId:${chainId}\nstartTimestamp:${startTimestamp}\ndurationDays:${durationDays}`;
-      await signMessageAsync({ message });
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      return FHEDecryptNumber(encryptedData);
-    } catch (e) { console.error("Decryption failed:", e); return null; } 
-    finally { setIsDecrypting(false); }
+      const client = await getClientWithSigner();
+      return await client.decryptBalance(card.id);
+    } catch (e: any) {
+      setTransactionStatus({ visible: true, status: "error", message: "Decryption failed: " + formatFailure(e) });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return null;
+    } finally {
+      setIsDecrypting(false);
+    }
   };
 
-  const isOwner = (cardAddress: string) => address?.toLowerCase() === cardAddress.toLowerCase();
-
   const filteredCards = cards.filter(card => {
     const matchesSearch = card.id.toLowerCase().includes(searchTerm.toLowerCase()) || 
-                         card.owner.toLowerCase().includes(searchTerm.toLowerCase());
+                         card.issuer.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         card.holder.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesStatus = filterStatus === "all" || card.status === filterStatus;
     return matchesSearch && matchesStatus;
   });
@@ -282,9 +402,14 @@ const App: React.FC = () => {
           <h1>FHE<span>Gift</span>Cards</h1>
         </div>
         <div className="header-actions">
-          <button onClick={() => setShowCreateModal(true)} className="create-card-btn cyber-button">
-            <div className="add-icon"></div>New Card
-          </button>
+          {isProvider && <Link to="/merchant" className="cyber-button">POS</Link>}
+          {isOwner && <Link to="/admin" className="cyber-button">Admin</Link>}
+          {isProvider && <button onClick={() => setShowBulkTopUp(true)} className="cyber-button">Bulk Top Up</button>}
+          {isProvider && (
+            <button onClick={() => setShowCreateModal(true)} className="create-card-btn cyber-button">
+              <div className="add-icon"></div>New Card
+            </button>
+          )}
           <div className="wallet-connect-wrapper"><ConnectButton accountStatus="address" chainStatus="icon" showBalance={false}/></div>
         </div>
       </header>
@@ -296,8 +421,22 @@ const App: React.FC = () => {
             <p>Powered by Zama FHE technology - balances remain encrypted during redemption</p>
           </div>
           <div className="fhe-indicator"><div className="fhe-lock"></div><span>FHE Encryption Active</span></div>
+          <div className={`batch-indicator ${contractState.batchOpen ? "open" : "closed"}`}>
+            {contractState.paused ? "Contract paused"
+              : contractState.batchOpen ? `Batch #${contractState.currentBatchId} open`
+              : "No open batch"}
+          </div>
         </div>
 
+        <CooldownBanner
+          submissionRemaining={cooldown.submissionRemaining}
+          decryptionRemaining={cooldown.decryptionRemaining}
+          queued={cooldown.queued}
+          onCancel={cooldown.cancel}
+        />
+
+        <LegacyMigration address={address} isProvider={isProvider} batchOpen={contractState.batchOpen} onMigrated={loadCards} />
+
         <div className="dashboard-grid">
           <div className="dashboard-card cyber-card">
             <h3>Project Introduction</h3>
@@ -321,6 +460,29 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        <ExpiryPanel
+          cards={cards}
+          isProvider={isProvider}
+          defaultValidityPeriod={defaultValidityPeriod}
+          onDefaultChanged={setDefaultValidityPeriod}
+          onSelect={openCard}
+        />
+
+        <DecryptionTracker
+          requests={decryptions}
+          onRetry={entry => follow(retryTrackedDecryption(entry))}
+          onDismiss={requestId => setDecryptions(removeTrackedDecryption(requestId))}
+        />
+
+        <BatchPanel
+          currentBatchId={contractState.currentBatchId}
+          batchOpen={contractState.batchOpen}
+          paused={contractState.paused}
+          isProvider={isProvider}
+          reports={buildBatchReports(history)}
+          onBatchChanged={loadCards}
+        />
+
         <div className="cards-section">
           <div className="section-header">
             <h2>Your FHE Gift Cards</h2>
@@ -344,17 +506,21 @@ const App: React.FC = () => {
                   <option value="expired">Expired</option>
                 </select>
               </div>
-              <button onClick={loadCards} className="refresh-btn cyber-button" disabled={isRefreshing}>
-                {isRefreshing ? "Refreshing..." : "Refresh"}
-              </button>
+              <div className={`live-indicator ${liveStatus}`}>
+                {isRefreshing ? "Syncing..."
+                  : liveStatus === "live" ? "Live"
+                  : liveStatus === "reconnecting" ? "Reconnecting..."
+                  : "Connecting..."}
+              </div>
             </div>
           </div>
           
           <div className="cards-list cyber-card">
             <div className="table-header">
-              <div className="header-cell">Card ID</div>
-              <div className="header-cell">Owner</div>
+              <div className="header-cell">Token ID</div>
+              <div className="header-cell">Issuer</div>
               <div className="header-cell">Created</div>
+              <div className="header-cell">Expires</div>
               <div className="header-cell">Status</div>
               <div className="header-cell">Actions</div>
             </div>
@@ -363,28 +529,29 @@ const App: React.FC = () => {
               <div className="no-cards">
                 <div className="no-cards-icon"></div>
                 <p>No gift cards found</p>
-                <button className="cyber-button primary" onClick={() => setShowCreateModal(true)}>Create First Card</button>
+                {isProvider && <button className="cyber-button primary" onClick={() => setShowCreateModal(true)}>Create First Card</button>}
               </div>
             ) : filteredCards.map(card => (
-              <div className="card-row" key={card.id} onClick={() => setSelectedCard(card)}>
+              <div className="card-row" key={card.id} onClick={() => openCard(card)}>
                 <div className="table-cell card-id">#{card.id.substring(0, 8)}</div>
-                <div className="table-cell">{card.owner.substring(0, 6)}...{card.owner.substring(38)}</div>
+                <div className="table-cell">{card.issuer.substring(0, 6)}...{card.issuer.substring(38)}</div>
                 <div className="table-cell">{new Date(card.timestamp * 1000).toLocaleDateString()}</div>
+                <div className="table-cell">{expiryLabel(card.expiresAt)}</div>
                 <div className="table-cell"><span className={`status-badge ${card.status}`}>{card.status}</span></div>
                 <div className="table-cell actions">
-                  {isOwner(card.owner) && card.status === "active" && (
-                    <button 
-                      className="action-btn cyber-button success" 
-                      onClick={(e) => { 
-                        e.stopPropagation(); 
-                        const amount = prompt("Enter amount to redeem:");
-                        if (amount && !isNaN(parseFloat(amount))) {
-                          redeemCard(card.id, parseFloat(amount));
-                        }
-                      }}
-                    >
-                      Redeem
-                    </button>
+                  {isProvider && card.status !== "expired" && (
+                    <span onClick={(e) => e.stopPropagation()}>
+                      <CooldownButton
+                        label="Redeem"
+                        remaining={cooldown.submissionRemaining}
+                        className="action-btn cyber-button success"
+                        onClick={() => {
+                          const { units, error } = parseUserAmount(prompt("Enter amount to redeem:") ?? "");
+                          if (error) alert(error);
+                          else if (units) redeemCard(card.id, units);
+                        }}
+                      />
+                    </span>
                   )}
                 </div>
               </div>
@@ -412,15 +579,42 @@ const App: React.FC = () => {
               <div className="form-group">
                 <label>Initial Balance *</label>
                 <input 
-                  type="number" 
+                  type="text" 
+                  inputMode="decimal"
                   name="initialBalance" 
                   value={newCardData.initialBalance} 
-                  onChange={(e) => setNewCardData({...newCardData, initialBalance: parseFloat(e.target.value) || 0})} 
+                  onChange={(e) => setNewCardData({...newCardData, initialBalance: e.target.value})} 
                   placeholder="Enter initial balance..." 
                   className="cyber-input"
-                  step="0.01"
-                  min="0"
                 />
+                {initialBalance.error && <small className="amount-error">{initialBalance.error}</small>}
+              </div>
+
+              <div className="form-group">
+                <label>Card Holder</label>
+                <input 
+                  type="text" 
+                  value={newCardData.holder} 
+                  onChange={(e) => setNewCardData({...newCardData, holder: e.target.value})} 
+                  placeholder={address ?? "0x..."} 
+                  className="cyber-input"
+                />
+                <small>Only the holder and the issuing provider can decrypt the balance; leave empty to keep the card yourself</small>
+              </div>
+
+              <div className="form-group">
+                <label>Expiry Date</label>
+                <input 
+                  type="date" 
+                  value={newCardData.expiresOn} 
+                  onChange={(e) => setNewCardData({...newCardData, expiresOn: e.target.value})} 
+                  className="cyber-input"
+                />
+                <small>
+                  {newCardData.expiresOn ? "Card can be redeemed until the end of this day"
+                    : defaultValidityPeriod > 0 ? `Leave empty to use your default validity of ${Math.round(defaultValidityPeriod / SECONDS_PER_DAY)} days`
+                    : "Leave empty for a card that never expires"}
+                </small>
               </div>
               
               <div className="encryption-preview">
@@ -428,41 +622,72 @@ const App: React.FC = () => {
                 <div className="preview-container">
                   <div className="plain-data">
                     <span>Plain Value:</span>
-                    <div>{newCardData.initialBalance || '0'}</div>
+                    <div>{initialBalance.units !== null ? formatUnits(initialBalance.units) : '0'}</div>
                   </div>
                   <div className="encryption-arrow">→</div>
                   <div className="encrypted-data">
-                    <span>Encrypted Data:</span>
-                    <div>{newCardData.initialBalance ? FHEEncryptNumber(newCardData.initialBalance).substring(0, 50) + '...' : 'No value entered'}</div>
+                    <span>Ciphertext Handle:</span>
+                    <div>
+                      {!initialBalance.units ? 'No value entered'
+                        : !address ? 'Connect wallet to encrypt'
+                        : isEncryptingPreview ? 'Encrypting...'
+                        : encryptedPreview ? encryptedPreview.handle
+                        : 'Encryption unavailable'}
+                    </div>
                   </div>
                 </div>
               </div>
             </div>
             <div className="modal-footer">
               <button onClick={() => setShowCreateModal(false)} className="cancel-btn cyber-button">Cancel</button>
-              <button 
-                onClick={createCard} 
-                disabled={creating || newCardData.initialBalance <= 0} 
+              <CooldownButton
+                label={creating ? "Encrypting with FHE..." : "Create Gift Card"}
+                remaining={cooldown.submissionRemaining}
+                onClick={createCard}
+                disabled={creating || !initialBalance.units}
                 className="submit-btn cyber-button primary"
-              >
-                {creating ? "Encrypting with FHE..." : "Create Gift Card"}
-              </button>
+              />
             </div>
           </div>
         </div>
       )}
       
+      {selectedTokenId && !selectedCard && !loading && (
+        <div className="modal-overlay">
+          <div className="card-detail-modal cyber-card">
+            <div className="modal-header">
+              <h2>Card Not Found</h2>
+              <button onClick={closeCard} className="close-modal">&times;</button>
+            </div>
+            <div className="modal-body">
+              <p>No gift card with token ID {selectedTokenId} has been issued on this contract.</p>
+            </div>
+            <div className="modal-footer">
+              <button onClick={closeCard} className="close-btn cyber-button">Back to Cards</button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {selectedCard && (
         <div className="modal-overlay">
           <div className="card-detail-modal cyber-card">
             <div className="modal-header">
               <h2>Card Details #{selectedCard.id.substring(0, 8)}</h2>
-              <button onClick={() => { setSelectedCard(null); setDecryptedBalance(null); }} className="close-modal">&times;</button>
+              <button onClick={closeCard} className="close-modal">&times;</button>
             </div>
             <div className="modal-body">
               <div className="card-info">
-                <div className="info-item"><span>Owner:</span><strong>{selectedCard.owner.substring(0, 6)}...{selectedCard.owner.substring(38)}</strong></div>
+                <div className="info-item"><span>Token ID:</span><strong>{selectedCard.id}</strong></div>
+                <div className="info-item"><span>Issuer:</span><strong>{selectedCard.issuer.substring(0, 6)}...{selectedCard.issuer.substring(38)}</strong></div>
+                {selectedCard.holder && (
+                  <div className="info-item"><span>Holder:</span><strong>{selectedCard.holder.substring(0, 6)}...{selectedCard.holder.substring(38)}</strong></div>
+                )}
                 <div className="info-item"><span>Created:</span><strong>{new Date(selectedCard.timestamp * 1000).toLocaleString()}</strong></div>
+                <div className="info-item"><span>Issue Batch:</span><strong><Link to={`/batches/${selectedCard.issuedBatchId}`}>#{selectedCard.issuedBatchId}</Link></strong></div>
+                <div className="info-item"><span>Last Used Batch:</span><strong><Link to={`/batches/${selectedCard.lastUsedBatchId}`}>#{selectedCard.lastUsedBatchId}</Link></strong></div>
+                <div className="info-item"><span>Redemptions:</span><strong>{selectedCard.redemptionCount}</strong></div>
+                <div className="info-item"><span>Expires:</span><strong>{selectedCard.expiresAt === NO_EXPIRY ? "Never" : `${new Date(selectedCard.expiresAt * 1000).toLocaleString()} (${expiryLabel(selectedCard.expiresAt)})`}</strong></div>
                 <div className="info-item"><span>Status:</span><strong className={`status-badge ${selectedCard.status}`}>{selectedCard.status}</strong></div>
                 {selectedCard.lastRedeemed && (
                   <div className="info-item"><span>Last Redeemed:</span><strong>{new Date(selectedCard.lastRedeemed * 1000).toLocaleString()}</strong></div>
@@ -471,28 +696,42 @@ const App: React.FC = () => {
               
               <div className="encrypted-data-section">
                 <h3>Encrypted Balance</h3>
-                <div className="encrypted-data">{selectedCard.encryptedBalance.substring(0, 100)}...</div>
+                <div className="encrypted-data">{selectedHandle ?? "Loading ciphertext handle..."}</div>
                 <div className="fhe-tag"><div className="fhe-icon"></div><span>FHE Encrypted</span></div>
-                <button 
-                  className="decrypt-btn cyber-button" 
-                  onClick={async () => {
-                    if (decryptedBalance !== null) {
-                      setDecryptedBalance(null);
-                    } else {
-                      const balance = await decryptWithSignature(selectedCard.encryptedBalance);
-                      if (balance !== null) setDecryptedBalance(balance);
-                    }
-                  }} 
-                  disabled={isDecrypting}
-                >
-                  {isDecrypting ? "Decrypting..." : decryptedBalance !== null ? "Hide Balance" : "Decrypt Balance"}
-                </button>
+                {canDecryptSelected && (
+                  <button 
+                    className="decrypt-btn cyber-button" 
+                    onClick={async () => {
+                      if (decryptedBalance !== null) {
+                        setDecryptedBalance(null);
+                      } else {
+                        const balance = await decryptWithSignature(selectedCard);
+                        if (balance !== null) {
+                          setDecryptedBalance(balance);
+                          const observation = { tokenId: selectedCard.id, balance, blockNumber: selectedCard.lastActivityBlock };
+                          setUserObservations(observations => [...observations, observation]);
+                        }
+                      }
+                    }} 
+                    disabled={isDecrypting}
+                  >
+                    {isDecrypting ? "Decrypting..." : decryptedBalance !== null ? "Hide Balance" : "Decrypt Balance"}
+                  </button>
+                )}
+                {isProvider && (
+                  <CooldownButton
+                    label="Request Public Decryption"
+                    remaining={cooldown.decryptionRemaining}
+                    className="decrypt-btn cyber-button"
+                    onClick={() => requestPublicDecryption(selectedCard)}
+                  />
+                )}
               </div>
               
               {decryptedBalance !== null && (
                 <div className="decrypted-data-section">
                   <h3>Current Balance</h3>
-                  <div className="decrypted-value">{decryptedBalance.toFixed(2)}</div>
+                  <div className="decrypted-value">{formatUnits(decryptedBalance)}</div>
                   <div className="decryption-notice">
                     <div className="warning-icon"></div>
                     <span>Decrypted balance is only visible after wallet signature verification</span>
@@ -500,42 +739,80 @@ const App: React.FC = () => {
                 </div>
               )}
               
-              {selectedCard.status === "active" && isOwner(selectedCard.owner) && (
+              {selectedCard.status !== "expired" && isProvider && (
+                <div className="redeem-section">
+                  <h3>Top Up Amount</h3>
+                  <div className="redeem-form">
+                    <input 
+                      type="text" 
+                      inputMode="decimal"
+                      value={topUpAmount}
+                      onChange={(e) => setTopUpAmount(e.target.value)}
+                      placeholder="Enter amount to add..."
+                      className="cyber-input"
+                    />
+                    <CooldownButton
+                      label="Top Up"
+                      remaining={cooldown.submissionRemaining}
+                      className="cyber-button primary"
+                      onClick={() => {
+                        if (parsedTopUp.units) {
+                          if (topUpWarning && !window.confirm(`${topUpWarning} Top up anyway?`)) return;
+                          topUpCard(selectedCard.id, parsedTopUp.units);
+                          setTopUpAmount("");
+                          closeCard();
+                        }
+                      }}
+                    />
+                  </div>
+                  {parsedTopUp.error && <small className="amount-error">{parsedTopUp.error}</small>}
+                  {topUpWarning && <small className="amount-warning">{topUpWarning}</small>}
+                </div>
+              )}
+              
+              {selectedCard.status !== "expired" && isProvider && (
                 <div className="redeem-section">
                   <h3>Redeem Amount</h3>
                   <div className="redeem-form">
                     <input 
-                      type="number" 
+                      type="text" 
+                      inputMode="decimal"
                       value={redeemAmount}
                       onChange={(e) => setRedeemAmount(e.target.value)}
                       placeholder="Enter amount to redeem..."
                       className="cyber-input"
-                      step="0.01"
-                      min="0"
                     />
-                    <button 
-                      className="cyber-button success" 
+                    <CooldownButton
+                      label="Redeem"
+                      remaining={cooldown.submissionRemaining}
+                      className="cyber-button success"
                       onClick={() => {
-                        if (redeemAmount && !isNaN(parseFloat(redeemAmount))) {
-                          redeemCard(selectedCard.id, parseFloat(redeemAmount));
-                          setSelectedCard(null);
-                          setDecryptedBalance(null);
+                        if (parsedRedeem.units) {
+                          redeemCard(selectedCard.id, parsedRedeem.units);
+                          closeCard();
                         }
                       }}
-                    >
-                      Redeem
-                    </button>
+                    />
                   </div>
+                  {parsedRedeem.error && <small className="amount-error">{parsedRedeem.error}</small>}
                 </div>
               )}
             </div>
             <div className="modal-footer">
-              <button onClick={() => { setSelectedCard(null); setDecryptedBalance(null); }} className="close-btn cyber-button">Close</button>
+              <button onClick={closeCard} className="close-btn cyber-button">Close</button>
             </div>
           </div>
         </div>
       )}
       
+      {showBulkTopUp && (
+        <BulkTopUpModal
+          submissionRemaining={cooldown.submissionRemaining}
+          onTopUp={(tokenId, units) => submitEncryptedAmount(tokenId, units, "topUp")}
+          onClose={() => setShowBulkTopUp(false)}
+        />
+      )}
+
       {transactionStatus.visible && (
         <div className="transaction-modal">
           <div className="transaction-content cyber-card">
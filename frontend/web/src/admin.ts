@@ -0,0 +1,62 @@
+// admin.ts
+import { normAddr } from "./contract";
+import { StoredEvent } from "./indexer";
+
+export interface ProviderEntry {
+  address: string;
+  addedAt: number;
+  addedBlock: number;
+}
+
+export interface AdminHistoryEntry {
+  id: string;
+  name: "OwnershipTransferred" | "CooldownSecondsSet";
+  timestamp: number;
+  transactionHash: string;
+  from: string;
+  to: string;
+}
+
+// Replays ProviderAdded/ProviderRemoved; an address re-added after removal keeps its latest addition.
+export function buildProviderList(events: StoredEvent[]): ProviderEntry[] {
+  const providers = new Map<string, ProviderEntry>();
+  for (const event of events) {
+    if (event.name === "ProviderAdded") {
+      providers.set(normAddr(event.args.provider), {
+        address: event.args.provider,
+        addedAt: event.timestamp,
+        addedBlock: event.blockNumber
+      });
+    } else if (event.name === "ProviderRemoved") {
+      providers.delete(normAddr(event.args.provider));
+    }
+  }
+  return Array.from(providers.values()).sort((a, b) => a.addedBlock - b.addedBlock);
+}
+
+// Newest first.
+export function buildAdminHistory(events: StoredEvent[]): AdminHistoryEntry[] {
+  const history: AdminHistoryEntry[] = [];
+  for (const event of events) {
+    if (event.name === "OwnershipTransferred") {
+      history.push({
+        id: event.id,
+        name: event.name,
+        timestamp: event.timestamp,
+        transactionHash: event.transactionHash,
+        from: event.args.previousOwner,
+        to: event.args.newOwner
+      });
+    } else if (event.name === "CooldownSecondsSet") {
+      history.push({
+        id: event.id,
+        name: event.name,
+        timestamp: event.timestamp,
+        transactionHash: event.transactionHash,
+        from: `${event.args.oldCooldownSeconds}s`,
+        to: `${event.args.newCooldownSeconds}s`
+      });
+    }
+  }
+  return history.reverse();
+}
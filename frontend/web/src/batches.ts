@@ -0,0 +1,40 @@
+// batches.ts
+import { StoredEvent } from "./indexer";
+
+export interface BatchReport {
+  batchId: number;
+  openedAt?: number;
+  closedAt?: number;
+  issued: string[];
+  toppedUp: string[];
+  redeemed: string[];
+}
+
+// Groups card activity by the batchId carried in each event. A card used several times in one
+// batch is listed once per list; newest batch first.
+export function buildBatchReports(events: StoredEvent[]): BatchReport[] {
+  const batches = new Map<number, BatchReport>();
+  const batch = (batchId: number) => {
+    let report = batches.get(batchId);
+    if (!report) {
+      report = { batchId, issued: [], toppedUp: [], redeemed: [] };
+      batches.set(batchId, report);
+    }
+    return report;
+  };
+  const addOnce = (list: string[], tokenId: string) => {
+    if (!list.includes(tokenId)) list.push(tokenId);
+  };
+
+  for (const event of events) {
+    const batchId = Number(event.args.batchId);
+    switch (event.name) {
+      case "BatchOpened": batch(batchId).openedAt = event.timestamp; break;
+      case "BatchClosed": batch(batchId).closedAt = event.timestamp; break;
+      case "CardIssued": addOnce(batch(batchId).issued, event.args.tokenId); break;
+      case "CardToppedUp": addOnce(batch(batchId).toppedUp, event.args.tokenId); break;
+      case "CardRedeemed": addOnce(batch(batchId).redeemed, event.args.tokenId); break;
+    }
+  }
+  return Array.from(batches.values()).sort((a, b) => b.batchId - a.batchId);
+}
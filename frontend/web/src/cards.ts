@@ -0,0 +1,99 @@
+// cards.ts
+import { NO_EXPIRY, daysRemaining, isExpired } from "../../../src";
+import { StoredEvent } from "./indexer";
+
+export interface GiftCard {
+  id: string;
+  issuer: string;
+  // Can decrypt the balance alongside the issuer.
+  holder: string;
+  timestamp: number;
+  status: "active" | "redeemed" | "expired";
+  issuedBatchId: number;
+  // Unix seconds from CardIssued; NO_EXPIRY (0) for cards that never expire.
+  expiresAt: number;
+  lastUsedBatchId: number;
+  // Block of the card's latest CardIssued/CardToppedUp/CardRedeemed.
+  lastActivityBlock: number;
+  redemptionCount: number;
+  topUpCount: number;
+  lastRedeemed?: number;
+}
+
+// A decrypted balance, valid for the card events up to and including `blockNumber`.
+export interface BalanceObservation {
+  tokenId: string;
+  balance: bigint;
+  blockNumber: number;
+}
+
+// The newest observation that no later top-up or redemption has made stale.
+function currentBalance(card: GiftCard, observations: BalanceObservation[]): bigint | undefined {
+  let latest: BalanceObservation | undefined;
+  for (const observation of observations) {
+    if (observation.tokenId !== card.id || observation.blockNumber < card.lastActivityBlock) continue;
+    if (!latest || observation.blockNumber > latest.blockNumber) latest = observation;
+  }
+  return latest?.balance;
+}
+
+// Replays CardIssued/CardToppedUp/CardRedeemed in block order to rebuild the card list.
+// Expiry uses the SDK's isExpired, so a card shows "expired" exactly when redeemFromCard would reject it.
+// Balances are encrypted, so a card only counts as "redeemed" once a decryption showed it empty and
+// nothing has touched it since; partly used cards and cards with an unknown balance stay "active".
+export function buildGiftCards(
+  events: StoredEvent[],
+  observations: BalanceObservation[] = [],
+  now: number = Math.floor(Date.now() / 1000)
+): GiftCard[] {
+  const cards = new Map<string, GiftCard>();
+  for (const event of events) {
+    if (event.name !== "CardIssued" && event.name !== "CardToppedUp" && event.name !== "CardRedeemed") continue;
+    const tokenId = event.args.tokenId;
+    const batchId = Number(event.args.batchId);
+
+    if (event.name === "CardIssued") {
+      const expiresAt = Number(event.args.expiresAt ?? NO_EXPIRY);
+      cards.set(tokenId, {
+        id: tokenId,
+        issuer: event.sender ?? "",
+        holder: event.args.holder ?? "",
+        timestamp: event.timestamp,
+        status: "active",
+        issuedBatchId: batchId,
+        expiresAt,
+        lastUsedBatchId: batchId,
+        lastActivityBlock: event.blockNumber,
+        redemptionCount: 0,
+        topUpCount: 0
+      });
+      continue;
+    }
+
+    const card = cards.get(tokenId);
+    if (!card) continue;
+    card.lastUsedBatchId = batchId;
+    card.lastActivityBlock = event.blockNumber;
+    if (event.name === "CardToppedUp") {
+      card.topUpCount++;
+    } else {
+      card.redemptionCount++;
+      card.lastRedeemed = event.timestamp;
+    }
+  }
+
+  for (const card of cards.values()) {
+    card.status = isExpired(card.expiresAt, now) ? "expired"
+      : currentBalance(card, observations) === 0n ? "redeemed"
+      : "active";
+  }
+
+  return Array.from(cards.values()).sort((a, b) => b.timestamp - a.timestamp);
+}
+
+export function expiryLabel(expiresAt: number, now?: number): string {
+  const days = daysRemaining(expiresAt, now);
+  if (days === null) return "No expiry";
+  if (isExpired(expiresAt, now)) return "Expired";
+  return days === 1 ? "1 day left" : `${days} days left`;
+}
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { formatFailure } from '../../../../src';
+import { BatchReport } from '../batches';
+import { getClientWithSigner } from '../contract';
+import BatchReportView from './BatchReportView';
+
+interface BatchPanelProps {
+  currentBatchId: number;
+  batchOpen: boolean;
+  paused: boolean;
+  isProvider: boolean;
+  reports: BatchReport[];
+  onBatchChanged: () => void;
+}
+
+const BatchPanel: React.FC<BatchPanelProps> = ({ currentBatchId, batchOpen, paused, isProvider, reports, onBatchChanged }) => {
+  const [selectedBatchId, setSelectedBatchId] = useState<number | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState("");
+
+  const selected = reports.find(r => r.batchId === (selectedBatchId ?? currentBatchId)) ?? reports[0];
+
+  const toggleBatch = async () => {
+    setSubmitting(true);
+    setError("");
+    try {
+      const client = await getClientWithSigner();
+      if (batchOpen) await client.closeBatch();
+      else await client.openBatch();
+      onBatchChanged();
+    } catch (e: any) {
+      setError((batchOpen ? "Closing" : "Opening") + " batch failed: " + formatFailure(e));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="batch-panel cyber-card">
+      <div className="section-header">
+        <h2>Batches</h2>
+        <div className="header-actions">
+          <div className={`batch-indicator ${batchOpen ? "open" : "closed"}`}>
+            {batchOpen ? `Batch #${currentBatchId} open` : currentBatchId > 0 ? `Batch #${currentBatchId} closed` : "No batch opened yet"}
+          </div>
+          {isProvider && (
+            <button className={`cyber-button ${batchOpen ? "danger" : "primary"}`} onClick={toggleBatch} disabled={submitting || paused}>
+              {submitting ? "Submitting..." : batchOpen ? "Close Batch" : "Open New Batch"}
+            </button>
+          )}
+        </div>
+      </div>
+      {paused && <p className="batch-hint">The contract is paused; batches cannot be opened or closed.</p>}
+      {!batchOpen && !paused && <p className="batch-hint">Issuance, top-ups and redemptions revert until a provider opens a batch.</p>}
+      {error && <p className="batch-error">{error}</p>}
+
+      {reports.length > 0 && selected && (
+        <div className="batch-report">
+          <div className="header-actions">
+            <select className="cyber-select" value={selected.batchId} onChange={(e) => setSelectedBatchId(Number(e.target.value))}>
+              {reports.map(r => <option key={r.batchId} value={r.batchId}>Batch #{r.batchId}</option>)}
+            </select>
+            <Link to={`/batches/${selected.batchId}`} className="cyber-button">Open Report</Link>
+          </div>
+          <BatchReportView report={selected} stillOpen={selected.batchId === currentBatchId && batchOpen} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchPanel;
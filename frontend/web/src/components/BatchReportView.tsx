@@ -0,0 +1,36 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { BatchReport } from '../batches';
+
+interface BatchReportViewProps {
+  report: BatchReport;
+  // The batch is the current one and has not been closed yet.
+  stillOpen: boolean;
+}
+
+const formatTime = (timestamp?: number) => timestamp ? new Date(timestamp * 1000).toLocaleString() : "-";
+
+const TokenList: React.FC<{ label: string; tokenIds: string[] }> = ({ label, tokenIds }) => (
+  <div className="batch-token-list">
+    <h4>{label} ({tokenIds.length})</h4>
+    {tokenIds.length === 0 ? <p>None</p> : (
+      <ul>{tokenIds.map(id => <li key={id} title={id}><Link to={`/cards/${id}`}>#{id.substring(0, 12)}</Link></li>)}</ul>
+    )}
+  </div>
+);
+
+const BatchReportView: React.FC<BatchReportViewProps> = ({ report, stillOpen }) => (
+  <>
+    <div className="batch-times">
+      <span>Opened: {formatTime(report.openedAt)}</span>
+      <span>Closed: {stillOpen ? "still open" : formatTime(report.closedAt)}</span>
+    </div>
+    <div className="batch-token-lists">
+      <TokenList label="Issued" tokenIds={report.issued} />
+      <TokenList label="Topped up" tokenIds={report.toppedUp} />
+      <TokenList label="Redeemed" tokenIds={report.redeemed} />
+    </div>
+  </>
+);
+
+export default BatchReportView;
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { CardNotFoundError, formatFailure, topUpRisk } from '../../../../src';
+import { getClientReadOnly } from '../contract';
+import { formatUnits, parseUserAmount } from '../currency';
+
+interface BulkTopUpModalProps {
+  submissionRemaining: number;
+  // Resolves once the top-up is mined; the caller queues it behind the provider cooldown.
+  onTopUp: (tokenId: string, units: bigint) => Promise<void>;
+  onClose: () => void;
+}
+
+type EntryStatus = "pending" | "missing" | "queued" | "done" | "failed";
+
+interface BulkEntry {
+  tokenId: string;
+  status: EntryStatus;
+  error?: string;
+}
+
+const STATUS_LABELS: Record<EntryStatus, string> = {
+  pending: "Checking...",
+  missing: "Card not found",
+  queued: "Queued",
+  done: "Topped up",
+  failed: "Failed"
+};
+
+// Splits on whitespace, commas or semicolons; token ids may be decimal or 0x hex and are
+// normalised to the decimal form used everywhere else in the UI.
+const parseTokenIds = (text: string): { tokenIds: string[]; invalid: string[] } => {
+  const tokenIds: string[] = [];
+  const invalid: string[] = [];
+  for (const part of text.split(/[\s,;]+/).filter(Boolean)) {
+    if (!/^(0x[0-9a-fA-F]+|\d+)$/.test(part)) { invalid.push(part); continue; }
+    const id = BigInt(part).toString();
+    if (!tokenIds.includes(id)) tokenIds.push(id);
+  }
+  return { tokenIds, invalid };
+};
+
+const BulkTopUpModal: React.FC<BulkTopUpModalProps> = ({ submissionRemaining, onTopUp, onClose }) => {
+  const [tokenText, setTokenText] = useState("");
+  const [amountInput, setAmountInput] = useState("");
+  const [entries, setEntries] = useState<BulkEntry[]>([]);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState("");
+
+  const { tokenIds, invalid } = parseTokenIds(tokenText);
+  const amount = parseUserAmount(amountInput);
+  // Balances are not decrypted here, so only the top-up size itself can be checked.
+  const risk = amount.units ? topUpRisk(amount.units) : null;
+
+  const updateEntry = (tokenId: string, update: Partial<BulkEntry>) =>
+    setEntries(current => current.map(e => e.tokenId === tokenId ? { ...e, ...update } : e));
+
+  const start = async () => {
+    const { units } = amount;
+    if (tokenIds.length === 0) { setError("Enter at least one token ID"); return; }
+    if (invalid.length > 0) { setError(`Not a token ID: ${invalid.join(", ")}`); return; }
+    if (amount.error) { setError(amount.error); return; }
+    if (!units) { setError("Enter an amount to add"); return; }
+    if (!window.confirm(`Add ${formatUnits(units)} to each of ${tokenIds.length} card(s)? Each top-up is a separate transaction.`)) return;
+
+    setError("");
+    setRunning(true);
+    setEntries(tokenIds.map(tokenId => ({ tokenId, status: "pending" })));
+    try {
+      const client = await getClientReadOnly();
+      if (!client) throw new Error("GiftCardFHE contract not available");
+
+      const existing: string[] = [];
+      for (const tokenId of tokenIds) {
+        try {
+          await client.requireCard(tokenId);
+          existing.push(tokenId);
+          updateEntry(tokenId, { status: "queued" });
+        } catch (e: any) {
+          updateEntry(tokenId, e instanceof CardNotFoundError
+            ? { status: "missing" }
+            : { status: "failed", error: formatFailure(e) });
+        }
+      }
+
+      // All top-ups go to the cooldown queue at once; it sends them one by one.
+      await Promise.all(existing.map(tokenId =>
+        onTopUp(tokenId, units)
+          .then(() => updateEntry(tokenId, { status: "done" }))
+          .catch((e: any) => updateEntry(tokenId, { status: "failed", error: formatFailure(e) }))
+      ));
+    } catch (e: any) {
+      setError("Bulk top-up failed: " + formatFailure(e));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal cyber-card">
+        <div className="modal-header">
+          <h2>Bulk Top Up</h2>
+          <button onClick={onClose} className="close-modal" disabled={running}>&times;</button>
+        </div>
+        <div className="modal-body">
+          <div className="form-group">
+            <label>Token IDs (one per line, or comma separated)</label>
+            <textarea
+              className="cyber-input bulk-token-input"
+              rows={6}
+              value={tokenText}
+              onChange={(e) => setTokenText(e.target.value)}
+              disabled={running}
+            />
+            <small>{tokenIds.length} card(s){invalid.length > 0 && `, ${invalid.length} invalid`}</small>
+          </div>
+          <div className="form-group">
+            <label>Amount per card</label>
+            <input
+              type="text"
+              inputMode="decimal"
+              className="cyber-input"
+              value={amountInput}
+              onChange={(e) => setAmountInput(e.target.value)}
+              disabled={running}
+            />
+            {amount.error && <small className="amount-error">{amount.error}</small>}
+            {risk && <small className="amount-warning">Cards already holding more than {formatUnits(risk.maxSafeBalance)} will wrap around to a small balance.</small>}
+          </div>
+          {submissionRemaining > 0 && <p className="batch-hint">First top-up will be sent in {submissionRemaining}s (provider cooldown).</p>}
+          {error && <p className="batch-error">{error}</p>}
+          {entries.length > 0 && (
+            <ul className="bulk-results">
+              {entries.map(entry => (
+                <li key={entry.tokenId} className={entry.status} title={entry.error}>
+                  <span>#{entry.tokenId.substring(0, 12)}</span>
+                  <span>{STATUS_LABELS[entry.status]}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <div className="modal-footer">
+          <button onClick={onClose} className="cancel-btn cyber-button" disabled={running}>Close</button>
+          <button onClick={start} className="submit-btn cyber-button primary" disabled={running || tokenIds.length === 0}>
+            {running ? "Topping up..." : `Top Up ${tokenIds.length} Card(s)`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkTopUpModal;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { QueuedOperation } from '../../../../src';
+
+interface CooldownBannerProps {
+  submissionRemaining: number;
+  decryptionRemaining: number;
+  queued: QueuedOperation[];
+  onCancel: (id: number) => void;
+}
+
+const CooldownBanner: React.FC<CooldownBannerProps> = ({ submissionRemaining, decryptionRemaining, queued, onCancel }) => {
+  if (submissionRemaining <= 0 && decryptionRemaining <= 0 && queued.length === 0) return null;
+
+  return (
+    <div className="cooldown-banner cyber-card">
+      <div className="cooldown-timers">
+        {submissionRemaining > 0 && <span>Next card operation in <strong>{submissionRemaining}s</strong></span>}
+        {decryptionRemaining > 0 && <span>Next decryption request in <strong>{decryptionRemaining}s</strong></span>}
+      </div>
+      {queued.length > 0 && (
+        <ul className="cooldown-queue">
+          {queued.map((op, i) => (
+            <li key={op.id}>
+              <span>{i === 0 ? "Next" : `#${i + 1}`}: {op.label}</span>
+              <button className="cyber-button danger" onClick={() => onCancel(op.id)}>Cancel</button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CooldownBanner;
@@ -0,0 +1,25 @@
+import React from 'react';
+
+interface CooldownButtonProps {
+  label: string;
+  remaining: number;
+  onClick: () => void;
+  className?: string;
+  disabled?: boolean;
+}
+
+// While the cooldown runs the action itself is disabled with a countdown; "Queue" hands the
+// same action to the cooldown queue, which sends it once the cooldown ends.
+const CooldownButton: React.FC<CooldownButtonProps> = ({ label, remaining, onClick, className = "cyber-button", disabled }) => {
+  if (remaining <= 0) {
+    return <button className={className} onClick={onClick} disabled={disabled}>{label}</button>;
+  }
+  return (
+    <span className="cooldown-button-group">
+      <button className={className} disabled>{label} ({remaining}s)</button>
+      <button className="cyber-button" onClick={onClick} disabled={disabled} title="Send automatically when the cooldown ends">Queue</button>
+    </span>
+  );
+};
+
+export default CooldownButton;
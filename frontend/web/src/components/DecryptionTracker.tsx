@@ -0,0 +1,48 @@
+import React from 'react';
+import { TrackedDecryption } from '../decryptionRequests';
+import { formatUnits } from '../currency';
+
+interface DecryptionTrackerProps {
+  requests: TrackedDecryption[];
+  onRetry: (entry: TrackedDecryption) => void;
+  onDismiss: (requestId: string) => void;
+}
+
+const STATUS_LABELS: Record<TrackedDecryption["status"], string> = {
+  pending: "Waiting for oracle",
+  completed: "Completed",
+  failed: "Failed"
+};
+
+const DecryptionTracker: React.FC<DecryptionTrackerProps> = ({ requests, onRetry, onDismiss }) => {
+  if (requests.length === 0) return null;
+
+  return (
+    <div className="cards-section">
+      <div className="section-header"><h2>Public Decryption Requests</h2></div>
+      <div className="decryption-list cyber-card">
+        {requests.map(entry => (
+          <div className={`decryption-row ${entry.status}`} key={entry.requestId}>
+            <div>
+              <strong>Card #{entry.tokenId.substring(0, 8)}</strong>
+              <div className="decryption-meta">
+                Request {entry.requestId.substring(0, 10)} · batch #{entry.batchId} · {new Date(entry.requestedAt).toLocaleString()}
+              </div>
+              {entry.status === "failed" && <div className="decryption-error">{entry.error}</div>}
+            </div>
+            <div className="decryption-outcome">
+              <span className={`status-badge ${entry.status}`}>{STATUS_LABELS[entry.status]}</span>
+              {entry.status === "completed" && entry.decryptedBalance !== undefined && (
+                <span className="decryption-balance">{formatUnits(BigInt(entry.decryptedBalance))}</span>
+              )}
+              {entry.status === "failed" && <button className="cyber-button" onClick={() => onRetry(entry)}>Check Again</button>}
+              {entry.status !== "pending" && <button className="cyber-button" onClick={() => onDismiss(entry.requestId)}>Dismiss</button>}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DecryptionTracker;
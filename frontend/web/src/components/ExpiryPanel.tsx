@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { EXPIRING_SOON_DAYS, SECONDS_PER_DAY, expiryState, formatFailure } from '../../../../src';
+import { GiftCard, expiryLabel } from '../cards';
+import { getClientWithSigner } from '../contract';
+
+interface ExpiryPanelProps {
+  cards: GiftCard[];
+  isProvider: boolean;
+  // The connected provider's default validity period in seconds; 0 = cards never expire.
+  defaultValidityPeriod: number;
+  onDefaultChanged: (seconds: number) => void;
+  onSelect: (card: GiftCard) => void;
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp * 1000).toLocaleDateString();
+
+const ExpiryPanel: React.FC<ExpiryPanelProps> = ({ cards, isProvider, defaultValidityPeriod, onDefaultChanged, onSelect }) => {
+  const [daysInput, setDaysInput] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    setDaysInput(defaultValidityPeriod === 0 ? "" : String(Math.round(defaultValidityPeriod / SECONDS_PER_DAY)));
+  }, [defaultValidityPeriod]);
+
+  const expiring = cards
+    .filter(card => expiryState(card.expiresAt) === "expiring")
+    .sort((a, b) => a.expiresAt - b.expiresAt);
+
+  const saveDefault = async () => {
+    const days = daysInput.trim() === "" ? 0 : Number(daysInput);
+    if (!Number.isInteger(days) || days < 0) { setError("Enter a whole number of days, or leave empty for no expiry"); return; }
+    setSaving(true);
+    setError("");
+    try {
+      const client = await getClientWithSigner();
+      await client.setDefaultValidityPeriod(days * SECONDS_PER_DAY);
+      onDefaultChanged(days * SECONDS_PER_DAY);
+    } catch (e: any) {
+      setError("Saving default validity failed: " + formatFailure(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="expiry-panel cyber-card">
+      <div className="section-header">
+        <h2>Expiring Soon</h2>
+        {isProvider && (
+          <div className="header-actions expiry-default">
+            <label>Default validity (days)</label>
+            <input
+              type="number"
+              className="cyber-input"
+              min="0"
+              step="1"
+              placeholder="No expiry"
+              value={daysInput}
+              onChange={(e) => setDaysInput(e.target.value)}
+              disabled={saving}
+            />
+            <button className="cyber-button primary" onClick={saveDefault} disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        )}
+      </div>
+      {error && <p className="batch-error">{error}</p>}
+      {expiring.length === 0 ? (
+        <p className="batch-hint">No cards expire in the next {EXPIRING_SOON_DAYS} days.</p>
+      ) : (
+        <ul className="expiry-list">
+          {expiring.map(card => (
+            <li key={card.id} onClick={() => onSelect(card)}>
+              <span title={card.id}>#{card.id.substring(0, 12)}</span>
+              <span>{formatDate(card.expiresAt)}</span>
+              <span className="expiry-days">{expiryLabel(card.expiresAt)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ExpiryPanel;
@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import { formatFailure } from '../../../../src';
+import { getClientReadOnly, getClientWithSigner } from '../contract';
+import { LegacyCard, isMigrationDone, loadLegacyCards, markMigrationDone, migrateLegacyCard } from '../migration';
+
+interface LegacyMigrationProps {
+  address?: string;
+  isProvider: boolean;
+  batchOpen: boolean;
+  onMigrated: () => void;
+}
+
+const LegacyMigration: React.FC<LegacyMigrationProps> = ({ address, isProvider, batchOpen, onMigrated }) => {
+  const [legacyCards, setLegacyCards] = useState<LegacyCard[]>([]);
+  const [migrating, setMigrating] = useState(false);
+  const [progress, setProgress] = useState("");
+
+  useEffect(() => {
+    if (!isProvider || isMigrationDone()) return;
+    const load = async () => {
+      const client = await getClientReadOnly();
+      if (!client) return;
+      const cards = await loadLegacyCards(client);
+      if (cards.every(card => card.migrated || card.amount === null)) {
+        markMigrationDone();
+        return;
+      }
+      setLegacyCards(cards);
+    };
+    load().catch(e => console.error("Error loading legacy cards:", e));
+  }, [isProvider]);
+
+  const pending = legacyCards.filter(card => !card.migrated && card.amount !== null);
+  const unrecoverable = legacyCards.filter(card => !card.migrated && card.amount === null);
+
+  if (!isProvider || pending.length === 0) return null;
+
+  const migrateAll = async () => {
+    if (!address) return;
+    setMigrating(true);
+    try {
+      const client = await getClientWithSigner();
+      for (let i = 0; i < pending.length; i++) {
+        setProgress(`Migrating card ${i + 1} of ${pending.length} (waiting for cooldown if needed)...`);
+        await migrateLegacyCard(client, pending[i], address);
+      }
+      markMigrationDone();
+      setProgress("Migration complete");
+      setLegacyCards([...legacyCards]);
+      onMigrated();
+    } catch (e: any) {
+      setProgress("Migration stopped: " + formatFailure(e));
+      setLegacyCards([...legacyCards]);
+    } finally {
+      setMigrating(false);
+    }
+  };
+
+  return (
+    <div className="migration-banner cyber-card">
+      <div>
+        <h3>Legacy Cards Found</h3>
+        <p>
+          {pending.length} card(s) from the old key-value store still need to be issued on GiftCardFHE.
+          Their balances are re-encrypted and issued one at a time, respecting the provider cooldown.
+        </p>
+        {unrecoverable.length > 0 && <p>{unrecoverable.length} card(s) have no recoverable balance and will be skipped.</p>}
+        {progress && <p className="migration-progress">{progress}</p>}
+      </div>
+      <button className="cyber-button primary" onClick={migrateAll} disabled={migrating || !batchOpen}>
+        {migrating ? "Migrating..." : batchOpen ? "Migrate Cards" : "Open a batch to migrate"}
+      </button>
+    </div>
+  );
+};
+
+export default LegacyMigration;
@@ -0,0 +1,38 @@
+import React, { useEffect } from 'react';
+import { useAccount, useSwitchChain } from 'wagmi';
+import { getNetwork, selectNetwork } from '../networks';
+import { useActiveNetwork } from '../useNetwork';
+
+interface NetworkGateProps {
+  children: React.ReactNode;
+}
+
+// Keeps the active deployment in step with the wallet's chain. Children remount on a switch,
+// so every page reloads its data from the new deployment.
+const NetworkGate: React.FC<NetworkGateProps> = ({ children }) => {
+  const { chainId, isConnected } = useAccount();
+  const { switchChain, isPending } = useSwitchChain();
+  const network = useActiveNetwork();
+
+  useEffect(() => {
+    if (chainId !== undefined) selectNetwork(chainId);
+  }, [chainId]);
+
+  const unsupported = isConnected && chainId !== undefined && !getNetwork(chainId);
+
+  return (
+    <>
+      {unsupported && (
+        <div className="network-banner">
+          <span>The wallet is on chain {chainId}, which has no gift card deployment. Showing {network.name}; switch to send transactions.</span>
+          <button className="cyber-button primary" disabled={isPending} onClick={() => switchChain({ chainId: network.chainId })}>
+            {isPending ? "Switching..." : `Switch to ${network.name}`}
+          </button>
+        </div>
+      )}
+      <React.Fragment key={network.chainId}>{children}</React.Fragment>
+    </>
+  );
+};
+
+export default NetworkGate;
@@ -0,0 +1,56 @@
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useAccount } from 'wagmi';
+import { useRole } from '../useRole';
+
+interface RequireRoleProps {
+  role: "owner" | "provider";
+  children: React.ReactNode;
+}
+
+const DESCRIPTIONS: Record<RequireRoleProps["role"], string> = {
+  owner: "the contract owner",
+  provider: "an authorized provider"
+};
+
+// Route guard: renders `children` only for a connected wallet holding `role` on-chain.
+const RequireRole: React.FC<RequireRoleProps> = ({ role, children }) => {
+  const { address } = useAccount();
+  const roles = useRole(address);
+  const allowed = role === "owner" ? roles.isOwner : roles.isProvider;
+
+  if (address && roles.role === null) return (
+    <div className="loading-screen">
+      <div className="cyber-spinner"></div>
+      <p>Checking wallet permissions...</p>
+    </div>
+  );
+
+  if (allowed) return <>{children}</>;
+
+  return (
+    <div className="app-container cyberpunk-theme">
+      <header className="app-header">
+        <div className="logo">
+          <div className="logo-icon"><div className="shield-icon"></div></div>
+          <h1>FHE<span>Gift</span>Cards</h1>
+        </div>
+        <div className="header-actions">
+          <Link to="/cards" className="cyber-button">Back to Cards</Link>
+          <div className="wallet-connect-wrapper"><ConnectButton accountStatus="address" chainStatus="icon" showBalance={false}/></div>
+        </div>
+      </header>
+      <div className="main-content">
+        <div className="admin-notice cyber-card">
+          <h2>{role === "owner" ? "Owner Only" : "Providers Only"}</h2>
+          <p>{address
+            ? `The connected wallet is not ${DESCRIPTIONS[role]}.`
+            : `Connect ${DESCRIPTIONS[role]} wallet to open this page.`}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RequireRole;
@@ -0,0 +1,75 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+// BarcodeDetector is not in TypeScript's DOM lib yet; only the part used here is declared.
+interface DetectedBarcode { rawValue: string; }
+interface BarcodeDetectorLike { detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>; }
+type BarcodeDetectorConstructor = new (options?: { formats?: string[] }) => BarcodeDetectorLike;
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | undefined =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+export const isScanningSupported = () => !!getBarcodeDetector() && !!navigator.mediaDevices?.getUserMedia;
+
+interface TokenScannerProps {
+  onScan: (value: string) => void;
+  onClose: () => void;
+}
+
+const SCAN_INTERVAL_MS = 300;
+
+const TokenScanner: React.FC<TokenScannerProps> = ({ onScan, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    if (!Detector) { setError("Camera scanning is not supported in this browser"); return; }
+
+    let stream: MediaStream | undefined;
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let stopped = false;
+    const detector = new Detector({ formats: ["qr_code", "code_128"] });
+
+    const start = async () => {
+      stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } });
+      if (stopped || !videoRef.current) return;
+      videoRef.current.srcObject = stream;
+      await videoRef.current.play();
+      timer = setInterval(async () => {
+        if (!videoRef.current || stopped) return;
+        try {
+          const [code] = await detector.detect(videoRef.current);
+          if (code && !stopped) {
+            stopped = true;
+            onScan(code.rawValue.trim());
+          }
+        } catch (e: any) {
+          // A detector that failed once keeps failing; stop instead of rejecting on every tick.
+          if (stopped) return;
+          stopped = true;
+          clearInterval(timer);
+          stream?.getTracks().forEach(track => track.stop());
+          setError("Scanning failed: " + (e.message || "Unknown error"));
+        }
+      }, SCAN_INTERVAL_MS);
+    };
+    start().catch(e => setError("Camera unavailable: " + (e.message || "Unknown error")));
+
+    return () => {
+      stopped = true;
+      clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [onScan]);
+
+  return (
+    <div className="modal-overlay">
+      <div className="pos-scanner cyber-card">
+        {error ? <p className="pos-error">{error}</p> : <video ref={videoRef} muted playsInline />}
+        <button className="cyber-button" onClick={onClose}>Cancel</button>
+      </div>
+    </div>
+  );
+};
+
+export default TokenScanner;
@@ -0,0 +1,43 @@
+import React, { useEffect, useState } from 'react';
+import { ethers } from 'ethers';
+import { PendingConfirmation, subscribeConfirmations } from '../confirmations';
+import { methodLabel } from '../transactions';
+
+// Mounted once at the root; shows the simulated gas and fee of each write before the wallet is opened.
+const TransactionConfirmHost: React.FC = () => {
+  const [pending, setPending] = useState<PendingConfirmation[]>([]);
+
+  useEffect(() => subscribeConfirmations(setPending), []);
+
+  const current = pending[0];
+  if (!current) return null;
+  const { preview } = current;
+
+  return (
+    <div className="modal-overlay">
+      <div className="create-modal cyber-card">
+        <div className="modal-header">
+          <h2>Confirm Transaction</h2>
+          <button onClick={() => current.resolve(false)} className="close-modal">&times;</button>
+        </div>
+        <div className="modal-body">
+          <p className="batch-hint">The call was simulated successfully and is expected to go through.</p>
+          <div className="card-info">
+            <div className="info-item"><span>Action:</span><strong>{methodLabel(preview.method)}</strong></div>
+            <div className="info-item"><span>From:</span><strong>{preview.from}</strong></div>
+            <div className="info-item"><span>Estimated gas:</span><strong>{preview.gasLimit.toLocaleString()}</strong></div>
+            <div className="info-item"><span>Max fee per gas:</span><strong>{ethers.formatUnits(preview.feePerGas, "gwei")} gwei</strong></div>
+            <div className="info-item"><span>Max network fee:</span><strong>{ethers.formatEther(preview.estimatedFee)} ETH</strong></div>
+          </div>
+          {pending.length > 1 && <p className="batch-hint">{pending.length - 1} more transaction(s) waiting for confirmation.</p>}
+        </div>
+        <div className="modal-footer">
+          <button onClick={() => current.resolve(false)} className="cancel-btn cyber-button">Cancel</button>
+          <button onClick={() => current.resolve(true)} className="submit-btn cyber-button primary">Continue to Wallet</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TransactionConfirmHost;
@@ -0,0 +1,80 @@
+import React, { useEffect, useState } from 'react';
+import { TrackedTransaction, TransactionState } from '../../../../src';
+import { clearFinishedTransactions, explorerTxUrl, methodLabel, subscribeTransactions } from '../transactions';
+import { useActiveNetwork } from '../useNetwork';
+
+const STATE_LABELS: Record<TransactionState, string> = {
+  pending: "Pending",
+  confirmed: "Confirmed",
+  failed: "Failed",
+  cancelled: "Cancelled",
+  replaced: "Replaced",
+  dropped: "Dropped"
+};
+
+const shortHash = (hash: string) => `${hash.substring(0, 10)}...${hash.substring(hash.length - 6)}`;
+
+const TxLink: React.FC<{ hash: string }> = ({ hash }) => {
+  const url = explorerTxUrl(hash);
+  return url
+    ? <a href={url} target="_blank" rel="noreferrer">{shortHash(hash)}</a>
+    : <span title={hash}>{shortHash(hash)}</span>;
+};
+
+// Mounted once at the root; lists transactions sent from this browser, newest first, and survives reloads.
+const TransactionTray: React.FC = () => {
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>([]);
+  const [open, setOpen] = useState(false);
+  const network = useActiveNetwork();
+
+  useEffect(() => subscribeTransactions(setTransactions), [network.chainId]);
+
+  if (transactions.length === 0) return null;
+  const pendingCount = transactions.filter(t => t.state === "pending").length;
+
+  return (
+    <div className="transaction-tray">
+      {open && (
+        <div className="transaction-tray-panel cyber-card">
+          <div className="section-header">
+            <h3>Transactions on {network.name}</h3>
+            <div className="header-actions">
+              {pendingCount < transactions.length && (
+                <button className="cyber-button" onClick={clearFinishedTransactions}>Clear finished</button>
+              )}
+              <button onClick={() => setOpen(false)} className="close-modal">&times;</button>
+            </div>
+          </div>
+          <ul className="transaction-list">
+            {transactions.map(tx => (
+              <li key={tx.hash}>
+                <div className="transaction-row">
+                  <strong>{methodLabel(tx.method)}</strong>
+                  <span className={`status-badge ${tx.state}`}>{STATE_LABELS[tx.state]}</span>
+                </div>
+                <div className="transaction-row transaction-meta">
+                  <span>{new Date(tx.submittedAt).toLocaleString()}</span>
+                  <TxLink hash={tx.hash} />
+                </div>
+                {tx.replacementHash && (
+                  <div className="transaction-row transaction-meta">
+                    <span>{tx.state === "cancelled" ? "Cancelled by" : tx.state === "replaced" ? "Replaced by" : "Sped up as"}</span>
+                    <TxLink hash={tx.replacementHash} />
+                  </div>
+                )}
+                {tx.state === "dropped" && (
+                  <p className="batch-hint">Not seen by the network any more and never mined; send it again if needed.</p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <button className="cyber-button primary transaction-tray-toggle" onClick={() => setOpen(!open)}>
+        {pendingCount > 0 ? `${pendingCount} pending transaction(s)` : "Transactions"}
+      </button>
+    </div>
+  );
+};
+
+export default TransactionTray;
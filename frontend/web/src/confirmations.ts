@@ -0,0 +1,42 @@
+// confirmations.ts
+import { TransactionPreview } from "../../../src";
+
+export interface PendingConfirmation {
+  id: number;
+  preview: TransactionPreview;
+  resolve: (confirmed: boolean) => void;
+}
+
+type Listener = (pending: PendingConfirmation[]) => void;
+
+// Bridges GiftCardClient's confirm callback, which runs outside React, to the
+// TransactionConfirmHost component. Requests are shown one at a time, oldest first.
+let pending: PendingConfirmation[] = [];
+let nextId = 1;
+const listeners = new Set<Listener>();
+
+const notify = () => listeners.forEach(listener => listener(pending));
+
+export function requestConfirmation(preview: TransactionPreview): Promise<boolean> {
+  // Without a mounted host nobody could answer, so the transaction goes straight to the wallet.
+  if (listeners.size === 0) return Promise.resolve(true);
+  return new Promise(resolve => {
+    const id = nextId++;
+    pending = [...pending, {
+      id,
+      preview,
+      resolve: confirmed => {
+        pending = pending.filter(p => p.id !== id);
+        notify();
+        resolve(confirmed);
+      }
+    }];
+    notify();
+  });
+}
+
+export function subscribeConfirmations(listener: Listener): () => void {
+  listeners.add(listener);
+  listener(pending);
+  return () => { listeners.delete(listener); };
+}
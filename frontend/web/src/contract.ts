@@ -1,10 +1,16 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
+import abiJson from "./abi/GiftCardFHE.json";
+import legacyAbiJson from "./abi/UniversalAdapter.json";
+import { GiftCardClient } from "../../../src";
+import { getFhevmInstance, localSessionStore } from "./fhe";
+import { requestConfirmation } from "./confirmations";
+import { activeNetwork } from "./networks";
+import { getReadProvider } from "./rpc";
+import { recordTransaction } from "./transactions";
 
 export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+export const LEGACY_ADAPTER_ABI = (legacyAbiJson as any).abi || legacyAbiJson;
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
@@ -18,69 +24,77 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
-  
-  for (const url of rpcUrls) {
-    try {
-      const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
-      });
-      
-      const blockNumber = await Promise.race([
-        provider.getBlockNumber(),
-        new Promise((_, reject) => 
-          setTimeout(() => reject(new Error("RPC timeout")), 10000)
-        )
-      ]);
-      
-      return provider;
-    } catch (error) {
-    }
-  }
-  
-  throw new Error("All RPC providers failed");
-};
-
-export async function getContractReadOnly() {
+export async function getClientReadOnly(): Promise<GiftCardClient | null> {
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const { address } = activeNetwork().contracts.giftCard;
+    const provider = getReadProvider();
     
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const code = await retry(() => provider.getCode(address));
     if (code === "0x") {
       return null;
     }
     
-    return contract;
+    return new GiftCardClient({ address, runner: provider });
   } catch (error) {
-    console.error("Failed to create read-only contract:", error);
+    console.error("Failed to create read-only client:", error);
     return null;
   }
 }
 
-export async function getContractWithSigner() {
+export async function getClientWithSigner(): Promise<GiftCardClient> {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
   try {
+    const network = activeNetwork();
     const provider = new ethers.BrowserProvider((window as any).ethereum);
+    const { chainId } = await provider.getNetwork();
+    if (Number(chainId) !== network.chainId) {
+      throw new Error(`The wallet is on chain ${chainId}; switch it to ${network.name} to send transactions`);
+    }
     const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
-    return contract;
+    return new GiftCardClient({
+      address: network.contracts.giftCard.address,
+      runner: signer,
+      fhevm: await getFhevmInstance(),
+      sessionStore: localSessionStore,
+      confirm: requestConfirmation,
+      onSubmitted: recordTransaction
+    });
   } catch (error) {
-    console.error("Failed to create contract with signer:", error);
+    console.error("Failed to create client with signer:", error);
     throw error;
   }
 }
 
+// Read-only handle on the pre-GiftCardFHE key-value store, used only to migrate old cards.
+export async function getLegacyAdapterReadOnly() {
+  const legacyAdapter = activeNetwork().contracts.legacyAdapter;
+  if (!legacyAdapter) return null;
+  try {
+    const provider = getReadProvider();
+    const code = await retry(() => provider.getCode(legacyAdapter.address));
+    if (code === "0x") {
+      return null;
+    }
+    return new ethers.Contract(legacyAdapter.address, LEGACY_ADAPTER_ABI, provider);
+  } catch (error) {
+    console.error("Failed to create legacy adapter contract:", error);
+    return null;
+  }
+}
+
+const ACL_ABI = ["function isAllowed(bytes32 handle, address account) view returns (bool)"];
+
+// Whether the FHEVM ACL lets `account` user-decrypt `handle`. Each top-up or redemption replaces a
+// card's balance handle and grants it only to the submitting provider, so the issuer can lose access.
+export async function canUserDecrypt(handle: string, account: string): Promise<boolean> {
+  const fhe = activeNetwork().fhe;
+  if (!fhe) return false;
+  const acl = new ethers.Contract(fhe.aclContractAddress, ACL_ABI, getReadProvider());
+  return acl.isAllowed(handle, account);
+}
+
 export function normAddr(a: string) { 
   return a ? a.toLowerCase() : a; 
 }
\ No newline at end of file
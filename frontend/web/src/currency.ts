@@ -0,0 +1,23 @@
+// currency.ts
+import { CurrencyConfig, formatAmount, parseAmount } from "../../../src";
+import { giftCardDeployment } from "./networks";
+
+// The minor-unit scale belongs to the deployment: changing it reinterprets every stored balance.
+export const activeCurrency = (): CurrencyConfig => giftCardDeployment().currency;
+
+export interface ParsedAmount {
+  units: bigint | null;
+  error: string | null;
+}
+
+// Parses what the user typed in their browser locale; empty input is neither a value nor an error.
+export function parseUserAmount(text: string): ParsedAmount {
+  if (text.trim() === "") return { units: null, error: null };
+  try {
+    return { units: parseAmount(text, activeCurrency()), error: null };
+  } catch (e: any) {
+    return { units: null, error: e.message };
+  }
+}
+
+export const formatUnits = (units: bigint | number): string => formatAmount(units, activeCurrency());
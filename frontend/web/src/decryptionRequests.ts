@@ -0,0 +1,89 @@
+// decryptionRequests.ts
+import { DEFAULT_DECRYPTION_TIMEOUT_MS, DecryptionRequestReceipt, formatFailure } from "../../../src";
+import { BalanceObservation } from "./cards";
+import { getClientReadOnly } from "./contract";
+import { giftCardDeployment } from "./networks";
+
+export interface TrackedDecryption {
+  requestId: string;
+  tokenId: string;
+  batchId: string;
+  blockNumber: number;
+  transactionHash: string;
+  requestedAt: number;
+  deadline: number;
+  status: "pending" | "completed" | "failed";
+  decryptedBalance?: string;
+  error?: string;
+}
+
+const storageKey = () => `giftcard_decryption_requests_${giftCardDeployment().address.toLowerCase()}`;
+
+export function loadTrackedDecryptions(): TrackedDecryption[] {
+  try {
+    const raw = localStorage.getItem(storageKey());
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.error("Error reading decryption requests:", e);
+    return [];
+  }
+}
+
+const saveAll = (entries: TrackedDecryption[]) => {
+  localStorage.setItem(storageKey(), JSON.stringify(entries));
+  return entries;
+};
+
+export function saveTrackedDecryption(entry: TrackedDecryption): TrackedDecryption[] {
+  const others = loadTrackedDecryptions().filter(e => e.requestId !== entry.requestId);
+  return saveAll([entry, ...others].sort((a, b) => b.requestedAt - a.requestedAt));
+}
+
+export function removeTrackedDecryption(requestId: string): TrackedDecryption[] {
+  return saveAll(loadTrackedDecryptions().filter(e => e.requestId !== requestId));
+}
+
+// The oracle's answer is only accepted while the balance still matches the request, so it is the
+// balance as of the request transaction. Events earlier in the same block cannot be told apart from
+// later ones, so the observation only covers the blocks before it.
+export const decryptionObservations = (entries: TrackedDecryption[]): BalanceObservation[] =>
+  entries
+    .filter(entry => entry.status === "completed" && entry.decryptedBalance !== undefined)
+    .map(entry => ({ tokenId: entry.tokenId, balance: BigInt(entry.decryptedBalance!), blockNumber: entry.blockNumber - 1 }));
+
+export function trackDecryptionRequest(tokenId: string, request: DecryptionRequestReceipt): TrackedDecryption {
+  const now = Date.now();
+  return {
+    requestId: request.requestId.toString(),
+    tokenId,
+    batchId: request.batchId.toString(),
+    blockNumber: request.blockNumber,
+    transactionHash: request.transactionHash,
+    requestedAt: now,
+    deadline: now + DEFAULT_DECRYPTION_TIMEOUT_MS,
+    status: "pending"
+  };
+}
+
+// Waits for the oracle until the entry's deadline, which survives reloads, then records the outcome.
+export async function followDecryption(entry: TrackedDecryption): Promise<TrackedDecryption> {
+  let next: TrackedDecryption;
+  try {
+    const client = await getClientReadOnly();
+    if (!client) throw new Error("GiftCardFHE contract not available");
+    const result = await client.waitForDecryption(BigInt(entry.requestId), {
+      fromBlock: entry.blockNumber,
+      timeoutMs: Math.max(0, entry.deadline - Date.now())
+    });
+    next = { ...entry, status: "completed", decryptedBalance: result.decryptedBalance.toString(), error: undefined };
+  } catch (e: any) {
+    next = { ...entry, status: "failed", error: formatFailure(e) };
+  }
+  saveTrackedDecryption(next);
+  return next;
+}
+
+// A failed entry is given a fresh timeout; the oracle may simply have been slow.
+export function retryTrackedDecryption(entry: TrackedDecryption): TrackedDecryption {
+  return { ...entry, status: "pending", error: undefined, deadline: Date.now() + DEFAULT_DECRYPTION_TIMEOUT_MS };
+}
@@ -0,0 +1,42 @@
+// fhe.ts
+import { createInstance, initSDK } from "@zama-fhe/relayer-sdk/bundle";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import { DecryptionSession, DecryptionSessionStore } from "../../../src";
+import { activeNetwork } from "./networks";
+
+const DECRYPTION_SESSION_PREFIX = "fhe_decryption_session";
+
+// One instance per chain: each network has its own relayer, gateway and key set.
+const instancePromises = new Map<number, Promise<FhevmInstance>>();
+
+export function getFhevmInstance(): Promise<FhevmInstance> {
+  const network = activeNetwork();
+  let instancePromise = instancePromises.get(network.chainId);
+  if (!instancePromise) {
+    const { fhe } = network;
+    if (!fhe) return Promise.reject(new Error(`FHE encryption is not configured for ${network.name}`));
+    instancePromise = (async () => {
+      await initSDK();
+      return createInstance({ ...fhe, chainId: network.chainId, network: (window as any).ethereum });
+    })();
+    instancePromises.set(network.chainId, instancePromise);
+    instancePromise.catch(() => { instancePromises.delete(network.chainId); });
+  }
+  return instancePromise;
+}
+
+// Keeps decryption keypairs and signatures across reloads so users sign once per validity window.
+export const localSessionStore: DecryptionSessionStore = {
+  get(key: string): DecryptionSession | null {
+    try {
+      const raw = localStorage.getItem(`${DECRYPTION_SESSION_PREFIX}_${key}`);
+      return raw ? JSON.parse(raw) as DecryptionSession : null;
+    } catch (e) {
+      console.error("Error reading decryption session:", e);
+      return null;
+    }
+  },
+  set(key: string, session: DecryptionSession) {
+    localStorage.setItem(`${DECRYPTION_SESSION_PREFIX}_${key}`, JSON.stringify(session));
+  }
+};
@@ -0,0 +1,152 @@
+// indexer.ts
+import { GiftCardClient, GiftCardEvent, GiftCardEventName } from "../../../src";
+
+export interface StoredEvent {
+  id: string;
+  name: GiftCardEventName;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+  // Transaction sender; only resolved for CardIssued, where it identifies the issuer.
+  sender?: string;
+  args: Record<string, string>;
+}
+
+const DB_VERSION = 1;
+const EVENTS_STORE = "events";
+const META_STORE = "meta";
+const LAST_SYNCED_KEY = "lastSyncedBlock";
+// Blocks this close to the head are re-scanned on every sync so short reorgs are corrected.
+const REORG_DEPTH = 5;
+
+const inflightSyncs = new Map<string, Promise<StoredEvent[]>>();
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+function openIndexDb(name: string): Promise<IDBDatabase> {
+  const request = indexedDB.open(name, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(EVENTS_STORE)) {
+      db.createObjectStore(EVENTS_STORE, { keyPath: "id" }).createIndex("blockNumber", "blockNumber");
+    }
+    if (!db.objectStoreNames.contains(META_STORE)) {
+      db.createObjectStore(META_STORE);
+    }
+  };
+  return requestToPromise(request);
+}
+
+const eventId = (blockNumber: number, logIndex: number) =>
+  `${blockNumber.toString().padStart(12, "0")}_${logIndex.toString().padStart(6, "0")}`;
+
+const serializeArgs = (event: GiftCardEvent): Record<string, string> => {
+  const { name, blockNumber, transactionHash, logIndex, ...args } = event;
+  return Object.fromEntries(Object.entries(args).map(([key, value]) => [key, String(value)]));
+};
+
+async function readStoredEvents(db: IDBDatabase): Promise<StoredEvent[]> {
+  const tx = db.transaction(EVENTS_STORE, "readonly");
+  return requestToPromise(tx.objectStore(EVENTS_STORE).getAll() as IDBRequest<StoredEvent[]>);
+}
+
+async function readLastSyncedBlock(db: IDBDatabase): Promise<number | undefined> {
+  const tx = db.transaction(META_STORE, "readonly");
+  return requestToPromise(tx.objectStore(META_STORE).get(LAST_SYNCED_KEY) as IDBRequest<number | undefined>);
+}
+
+// Replaces everything from `fromBlock` onwards with `events` and advances the sync cursor atomically.
+async function writeEvents(db: IDBDatabase, fromBlock: number, events: StoredEvent[], lastSyncedBlock: number) {
+  const tx = db.transaction([EVENTS_STORE, META_STORE], "readwrite");
+  const store = tx.objectStore(EVENTS_STORE);
+  store.index("blockNumber").openCursor(IDBKeyRange.lowerBound(fromBlock)).onsuccess = (e) => {
+    const cursor = (e.target as IDBRequest<IDBCursorWithValue | null>).result;
+    if (!cursor) {
+      events.forEach(event => store.put(event));
+      return;
+    }
+    cursor.delete();
+    cursor.continue();
+  };
+  tx.objectStore(META_STORE).put(lastSyncedBlock, LAST_SYNCED_KEY);
+  await transactionDone(tx);
+}
+
+async function enrichEvents(client: GiftCardClient, events: GiftCardEvent[]): Promise<StoredEvent[]> {
+  const provider = client.contract.runner?.provider;
+  if (!provider) throw new Error("Client has no provider");
+
+  const blockTimes = new Map<number, number>();
+  const stored: StoredEvent[] = [];
+  for (const event of events) {
+    if (!blockTimes.has(event.blockNumber)) {
+      const block = await provider.getBlock(event.blockNumber);
+      blockTimes.set(event.blockNumber, block ? block.timestamp : 0);
+    }
+    let sender: string | undefined;
+    if (event.name === "CardIssued") {
+      const tx = await provider.getTransaction(event.transactionHash);
+      sender = tx?.from;
+    }
+    stored.push({
+      id: eventId(event.blockNumber, event.logIndex),
+      name: event.name,
+      blockNumber: event.blockNumber,
+      logIndex: event.logIndex,
+      transactionHash: event.transactionHash,
+      timestamp: blockTimes.get(event.blockNumber)!,
+      sender,
+      args: serializeArgs(event)
+    });
+  }
+  return stored;
+}
+
+async function runSync(client: GiftCardClient, deployBlock: number, dbName: string): Promise<StoredEvent[]> {
+  const provider = client.contract.runner?.provider;
+  if (!provider) throw new Error("Client has no provider");
+
+  const db = await openIndexDb(dbName);
+  try {
+    const lastSynced = await readLastSyncedBlock(db);
+    const fromBlock = lastSynced === undefined ? deployBlock : Math.max(deployBlock, lastSynced - REORG_DEPTH + 1);
+    const latest = await provider.getBlockNumber();
+
+    if (fromBlock <= latest) {
+      const events = await enrichEvents(client, await client.queryEvents(fromBlock, latest));
+      await writeEvents(db, fromBlock, events, latest);
+    }
+    const all = await readStoredEvents(db);
+    return all.sort((a, b) => a.id.localeCompare(b.id));
+  } finally {
+    db.close();
+  }
+}
+
+// Scans GiftCardFHE events since the last synced block into IndexedDB and returns the full,
+// block-ordered history. Concurrent callers for the same deployment share one scan.
+export async function syncEvents(client: GiftCardClient, deployBlock: number): Promise<StoredEvent[]> {
+  const provider = client.contract.runner?.provider;
+  if (!provider) throw new Error("Client has no provider");
+  const { chainId } = await provider.getNetwork();
+  const dbName = `giftcard_index_${chainId}_${client.address.toLowerCase()}`;
+
+  let sync = inflightSyncs.get(dbName);
+  if (!sync) {
+    sync = runSync(client, deployBlock, dbName).finally(() => inflightSyncs.delete(dbName));
+    inflightSyncs.set(dbName, sync);
+  }
+  return sync;
+}
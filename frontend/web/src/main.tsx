@@ -1,19 +1,37 @@
 import React, { useEffect, useState } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import AdminPage from './pages/AdminPage';
+import BatchPage from './pages/BatchPage';
+import MerchantPage from './pages/MerchantPage';
+import RequireRole from './components/RequireRole';
+import TransactionConfirmHost from './components/TransactionConfirmHost';
+import TransactionTray from './components/TransactionTray';
+import NetworkGate from './components/NetworkGate';
+import { listNetworks, loadNetworks } from './networks';
+import { NetworkConfig } from '../../../src';
 import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/rainbowkit';
 import { WagmiConfig } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
-import { sepolia } from 'wagmi/chains';
-import { BrowserRouter } from 'react-router-dom';
+import { Chain, defineChain } from 'viem';
+import { BrowserRouter, Navigate, Route, Routes } from 'react-router-dom';
 
 const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
 
-const config = getDefaultConfig({
+const toChain = (network: NetworkConfig): Chain => defineChain({
+  id: network.chainId,
+  name: network.name,
+  nativeCurrency: network.nativeCurrency,
+  rpcUrls: { default: { http: network.rpcUrls } },
+  blockExplorers: network.explorerUrl ? { default: { name: 'Explorer', url: network.explorerUrl } } : undefined
+});
+
+// Built after networks.json is loaded: the wallet may connect on any configured chain.
+const createWagmiConfig = () => getDefaultConfig({
   appName: '',
   projectId: projectId,
-  chains: [sepolia],
+  chains: listNetworks().map(toChain) as [Chain, ...Chain[]],
 });
 
 const queryClient = new QueryClient();
@@ -116,16 +134,38 @@ const AdaptiveThemeProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   );
 };
 
-createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <QueryClientProvider client={queryClient}>
-      <WagmiConfig config={config}>
-        <BrowserRouter>
-          <AdaptiveThemeProvider>
-            <App />
-          </AdaptiveThemeProvider>
-        </BrowserRouter>
-      </WagmiConfig>
-    </QueryClientProvider>
-  </React.StrictMode>
-);
\ No newline at end of file
+const root = createRoot(document.getElementById('root')!);
+
+loadNetworks()
+  .then(() => root.render(
+    <React.StrictMode>
+      <QueryClientProvider client={queryClient}>
+        <WagmiConfig config={createWagmiConfig()}>
+          <BrowserRouter>
+            <AdaptiveThemeProvider>
+              <NetworkGate>
+                <Routes>
+                  <Route path="/cards" element={<App />} />
+                  <Route path="/cards/:tokenId" element={<App />} />
+                  <Route path="/batches/:batchId" element={<BatchPage />} />
+                  <Route path="/merchant" element={<RequireRole role="provider"><MerchantPage /></RequireRole>} />
+                  <Route path="/admin" element={<RequireRole role="owner"><AdminPage /></RequireRole>} />
+                  <Route path="*" element={<Navigate to="/cards" replace />} />
+                </Routes>
+              </NetworkGate>
+              <TransactionConfirmHost />
+              <TransactionTray />
+            </AdaptiveThemeProvider>
+          </BrowserRouter>
+        </WagmiConfig>
+      </QueryClientProvider>
+    </React.StrictMode>
+  ))
+  .catch(e => {
+    console.error("Failed to load network configuration:", e);
+    root.render(
+      <div className="loading-screen">
+        <p>Network configuration could not be loaded: {e.message}</p>
+      </div>
+    );
+  });
@@ -0,0 +1,90 @@
+// migration.ts
+import { ethers } from "ethers";
+import { GiftCardClient, cooldownRemaining, toMinorUnits } from "../../../src";
+import { getLegacyAdapterReadOnly } from "./contract";
+import { activeCurrency } from "./currency";
+import { activeNetwork } from "./networks";
+
+export interface LegacyCard {
+  legacyId: string;
+  tokenId: bigint;
+  amount: number | null;
+  owner: string;
+  timestamp: number;
+  migrated: boolean;
+}
+
+const migrationDoneKey = (legacyAdapterAddress: string) => `giftcard_migration_done_${legacyAdapterAddress.toLowerCase()}`;
+
+// Networks without a legacy adapter have nothing to migrate.
+export function isMigrationDone(): boolean {
+  const legacyAdapter = activeNetwork().contracts.legacyAdapter;
+  return !legacyAdapter || localStorage.getItem(migrationDoneKey(legacyAdapter.address)) === "true";
+}
+
+export function markMigrationDone() {
+  const legacyAdapter = activeNetwork().contracts.legacyAdapter;
+  if (legacyAdapter) localStorage.setItem(migrationDoneKey(legacyAdapter.address), "true");
+}
+
+// Deterministic, so rerunning the migration finds cards that were already issued.
+export const legacyTokenId = (legacyId: string): bigint => BigInt(ethers.id(`giftcard_${legacyId}`));
+
+// The adapter stored balances as `FHE-<base64 plaintext>`; anything else cannot be recovered.
+const decodeLegacyBalance = (balance: string): number | null => {
+  if (typeof balance !== "string" || !balance.startsWith("FHE-")) return null;
+  const value = parseFloat(atob(balance.substring(4)));
+  return isNaN(value) ? null : value;
+};
+
+export async function loadLegacyCards(client: GiftCardClient): Promise<LegacyCard[]> {
+  const adapter = await getLegacyAdapterReadOnly();
+  if (!adapter) return [];
+
+  const keysBytes = await adapter.getData("giftcard_keys");
+  let keys: string[] = [];
+  if (keysBytes.length > 0) {
+    try {
+      const keysStr = ethers.toUtf8String(keysBytes);
+      if (keysStr.trim() !== '') keys = JSON.parse(keysStr);
+    } catch (e) { console.error("Error parsing legacy gift card keys:", e); }
+  }
+
+  const cards: LegacyCard[] = [];
+  for (const key of keys) {
+    try {
+      const cardBytes = await adapter.getData(`giftcard_${key}`);
+      if (cardBytes.length === 0) continue;
+      const cardData = JSON.parse(ethers.toUtf8String(cardBytes));
+      const tokenId = cardData.tokenId ? BigInt(cardData.tokenId) : legacyTokenId(key);
+      cards.push({
+        legacyId: key,
+        tokenId,
+        amount: decodeLegacyBalance(cardData.balance),
+        owner: cardData.owner,
+        timestamp: cardData.timestamp,
+        migrated: await client.cardExists(tokenId)
+      });
+    } catch (e) { console.error(`Error loading legacy card ${key}:`, e); }
+  }
+  return cards;
+}
+
+const waitForCooldown = async (client: GiftCardClient, userAddress: string) => {
+  const remaining = cooldownRemaining(await client.getCooldownStatus(userAddress), "submission");
+  if (remaining > 0) {
+    await new Promise(resolve => setTimeout(resolve, remaining * 1000));
+  }
+};
+
+// Re-issues a legacy card on GiftCardFHE under its deterministic tokenId with a freshly encrypted balance.
+// The legacy owner becomes the holder; cards without a usable owner stay with the migrating provider.
+export async function migrateLegacyCard(client: GiftCardClient, card: LegacyCard, userAddress: string) {
+  if (card.migrated) return;
+  if (card.amount === null) throw new Error(`Legacy card ${card.legacyId} has no recoverable balance`);
+
+  await waitForCooldown(client, userAddress);
+  const holder = ethers.isAddress(card.owner) ? card.owner : userAddress;
+  await client.issueCard(card.tokenId, holder, toMinorUnits(card.amount, activeCurrency()));
+  card.migrated = true;
+}
@@ -0,0 +1,79 @@
+// networks.ts
+import { GiftCardDeployment, NetworkConfig, NetworkRegistry, assertNetworkRegistry, findNetwork } from "../../../src";
+
+// Served from public/, so deployments can be added or moved without rebuilding the app.
+const NETWORKS_URL = `${import.meta.env.BASE_URL}networks.json`;
+
+type Listener = (network: NetworkConfig) => void;
+
+let registry: NetworkRegistry | null = null;
+let activeChainId = 0;
+const listeners = new Set<Listener>();
+
+// Must resolve before anything reads the active network; main.tsx waits for it before rendering.
+export async function loadNetworks(): Promise<NetworkRegistry> {
+  const response = await fetch(NETWORKS_URL, { cache: "no-cache" });
+  if (!response.ok) throw new Error(`Loading ${NETWORKS_URL} failed with HTTP ${response.status}`);
+  registry = assertNetworkRegistry(await response.json());
+  // Start on the wallet's chain when it has a deployment, so the first render needs no switch.
+  const walletChainId = Number((window as any).ethereum?.chainId ?? 0);
+  activeChainId = findNetwork(registry, walletChainId) ? walletChainId : registry.defaultChainId;
+  return registry;
+}
+
+const loadedRegistry = (): NetworkRegistry => {
+  if (!registry) throw new Error("Network registry has not been loaded");
+  return registry;
+};
+
+export function listNetworks(): NetworkConfig[] {
+  const { defaultChainId, networks } = loadedRegistry();
+  // Default first: wagmi treats the first chain as the initial one.
+  return Object.values(networks).sort((a, b) => Number(b.chainId === defaultChainId) - Number(a.chainId === defaultChainId));
+}
+
+export function getNetwork(chainId: number): NetworkConfig | undefined {
+  return findNetwork(loadedRegistry(), chainId);
+}
+
+export function activeNetwork(): NetworkConfig {
+  return loadedRegistry().networks[activeChainId];
+}
+
+export const giftCardDeployment = (): GiftCardDeployment => activeNetwork().contracts.giftCard;
+
+// Follows the wallet. Returns false, leaving the active network unchanged, for chains without a deployment.
+export function selectNetwork(chainId: number): boolean {
+  const network = getNetwork(chainId);
+  if (!network) return false;
+  if (chainId !== activeChainId) {
+    activeChainId = chainId;
+    listeners.forEach(listener => listener(network));
+  }
+  return true;
+}
+
+export function subscribeNetwork(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
+
+// Asks an EIP-1193 wallet to switch to `network`, adding the chain first if the wallet does not know it.
+export async function switchWalletNetwork(provider: any, network: NetworkConfig): Promise<void> {
+  const chainId = `0x${network.chainId.toString(16)}`;
+  try {
+    await provider.request({ method: "wallet_switchEthereumChain", params: [{ chainId }] });
+  } catch (switchError: any) {
+    if (switchError.code !== 4902) throw switchError;
+    await provider.request({
+      method: "wallet_addEthereumChain",
+      params: [{
+        chainId,
+        chainName: network.name,
+        nativeCurrency: network.nativeCurrency,
+        rpcUrls: network.rpcUrls,
+        blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined
+      }]
+    });
+  }
+}
@@ -0,0 +1,226 @@
+// AdminPage.tsx
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { ethers } from "ethers";
+import { GiftCardClient, formatFailure } from "../../../../src";
+import { AdminHistoryEntry, ProviderEntry, buildAdminHistory, buildProviderList } from "../admin";
+import { getClientReadOnly, getClientWithSigner } from "../contract";
+import { giftCardDeployment } from "../networks";
+import { StoredEvent, syncEvents } from "../indexer";
+import { subscribeToContractEvents } from "../subscriptions";
+import "../App.css";
+
+interface AdminState {
+  owner: string;
+  paused: boolean;
+  cooldownSeconds: number;
+}
+
+const ADMIN_EVENT_NAMES = ["ProviderAdded", "ProviderRemoved", "Paused", "Unpaused", "OwnershipTransferred", "CooldownSecondsSet"] as const;
+
+const AdminPage: React.FC = () => {
+  const [loading, setLoading] = useState(true);
+  const [adminState, setAdminState] = useState<AdminState | null>(null);
+  const [providers, setProviders] = useState<ProviderEntry[]>([]);
+  const [history, setHistory] = useState<AdminHistoryEntry[]>([]);
+  const [newProvider, setNewProvider] = useState("");
+  const [cooldownInput, setCooldownInput] = useState("");
+  const [newOwner, setNewOwner] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState<{ kind: "success" | "error"; message: string } | null>(null);
+
+  const loadAdminState = async (client: GiftCardClient) => {
+    const [owner, paused, cooldownSeconds] = await Promise.all([client.owner(), client.isPaused(), client.cooldownSeconds()]);
+    setAdminState({ owner, paused, cooldownSeconds: Number(cooldownSeconds) });
+    setCooldownInput(cooldownSeconds.toString());
+  };
+
+  const showEvents = (events: StoredEvent[]) => {
+    setProviders(buildProviderList(events));
+    setHistory(buildAdminHistory(events));
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      const client = await getClientReadOnly();
+      if (!client) return;
+      await loadAdminState(client);
+      showEvents(await syncEvents(client, giftCardDeployment().deployBlock));
+    };
+    load().catch(e => console.error("Error loading admin state:", e)).finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => subscribeToContractEvents({
+    eventNames: [...ADMIN_EVENT_NAMES],
+    onEvents: (events, all) => {
+      showEvents(all);
+      if (events.some(e => (ADMIN_EVENT_NAMES as readonly string[]).includes(e.name))) {
+        getClientReadOnly()
+          .then(client => client && loadAdminState(client))
+          .catch(e => console.error("Error refreshing admin state:", e));
+      }
+    }
+  }), []);
+
+  // Every admin call is owner-only on-chain; the route guard only saves the user a failed transaction.
+  const runAdminAction = async (label: string, action: (client: GiftCardClient) => Promise<unknown>) => {
+    setBusy(true);
+    setStatus(null);
+    try {
+      const client = await getClientWithSigner();
+      await action(client);
+      await loadAdminState(client);
+      setStatus({ kind: "success", message: `${label} confirmed` });
+    } catch (e: any) {
+      setStatus({ kind: "error", message: `${label} failed: ` + formatFailure(e) });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const addProvider = async () => {
+    if (!ethers.isAddress(newProvider)) { setStatus({ kind: "error", message: "Enter a valid provider address" }); return; }
+    await runAdminAction("Add provider", client => client.addProvider(newProvider));
+    setNewProvider("");
+  };
+
+  const saveCooldown = async () => {
+    const seconds = Number(cooldownInput);
+    if (!Number.isInteger(seconds) || seconds < 0) { setStatus({ kind: "error", message: "Cooldown must be a whole number of seconds" }); return; }
+    await runAdminAction("Cooldown update", client => client.setCooldownSeconds(seconds));
+  };
+
+  const transferOwnership = async () => {
+    if (!ethers.isAddress(newOwner)) { setStatus({ kind: "error", message: "Enter a valid owner address" }); return; }
+    if (!window.confirm(`Transfer ownership to ${newOwner}? You will lose access to this page.`)) return;
+    await runAdminAction("Ownership transfer", client => client.transferOwnership(newOwner));
+    setNewOwner("");
+  };
+
+  if (loading) return (
+    <div className="loading-screen">
+      <div className="cyber-spinner"></div>
+      <p>Loading contract administration...</p>
+    </div>
+  );
+
+  return (
+    <div className="app-container cyberpunk-theme">
+      <header className="app-header">
+        <div className="logo">
+          <div className="logo-icon"><div className="shield-icon"></div></div>
+          <h1>FHE<span>Gift</span>Cards</h1>
+        </div>
+        <div className="header-actions">
+          <Link to="/cards" className="cyber-button">Back to Cards</Link>
+          <div className="wallet-connect-wrapper"><ConnectButton accountStatus="address" chainStatus="icon" showBalance={false}/></div>
+        </div>
+      </header>
+
+      <div className="main-content">
+        {!adminState ? (
+          <div className="admin-notice cyber-card"><p>GiftCardFHE contract not available</p></div>
+        ) : (
+          <>
+            {status && <div className={`admin-status ${status.kind}`}>{status.message}</div>}
+
+            <div className="dashboard-grid">
+              <div className="dashboard-card cyber-card">
+                <h3>Contract Status</h3>
+                <p>{adminState.paused ? "Paused: issuance, top-ups, redemptions and batches are blocked." : "Running"}</p>
+                <button
+                  className={`cyber-button ${adminState.paused ? "success" : "danger"}`}
+                  disabled={busy}
+                  onClick={() => runAdminAction(adminState.paused ? "Unpause" : "Pause", client => adminState.paused ? client.unpause() : client.pause())}
+                >
+                  {adminState.paused ? "Unpause" : "Pause"}
+                </button>
+              </div>
+
+              <div className="dashboard-card cyber-card">
+                <h3>Provider Cooldown</h3>
+                <div className="form-group">
+                  <label>Seconds between submissions</label>
+                  <input type="number" min="0" step="1" className="cyber-input" value={cooldownInput} onChange={(e) => setCooldownInput(e.target.value)} />
+                </div>
+                <button className="cyber-button primary" disabled={busy || cooldownInput === adminState.cooldownSeconds.toString()} onClick={saveCooldown}>
+                  Save Cooldown
+                </button>
+              </div>
+
+              <div className="dashboard-card cyber-card">
+                <h3>Ownership</h3>
+                <div className="form-group">
+                  <label>New owner address</label>
+                  <input type="text" className="cyber-input" placeholder="0x..." value={newOwner} onChange={(e) => setNewOwner(e.target.value)} />
+                </div>
+                <button className="cyber-button danger" disabled={busy || !newOwner} onClick={transferOwnership}>Transfer Ownership</button>
+              </div>
+            </div>
+
+            <div className="cards-section">
+              <div className="section-header">
+                <h2>Providers</h2>
+                <div className="header-actions">
+                  <input type="text" className="cyber-input" placeholder="Provider address 0x..." value={newProvider} onChange={(e) => setNewProvider(e.target.value)} />
+                  <button className="cyber-button primary" disabled={busy || !newProvider} onClick={addProvider}>Add Provider</button>
+                </div>
+              </div>
+              <div className="cards-list admin-table cyber-card">
+                <div className="table-header">
+                  <div className="header-cell">Address</div>
+                  <div className="header-cell">Added</div>
+                  <div className="header-cell">Block</div>
+                  <div className="header-cell">Actions</div>
+                </div>
+                {providers.length === 0 ? (
+                  <div className="no-cards"><p>No providers registered</p></div>
+                ) : providers.map(provider => (
+                  <div className="card-row" key={provider.address}>
+                    <div className="table-cell">{provider.address}</div>
+                    <div className="table-cell">{new Date(provider.addedAt * 1000).toLocaleDateString()}</div>
+                    <div className="table-cell">{provider.addedBlock}</div>
+                    <div className="table-cell actions">
+                      <button
+                        className="action-btn cyber-button danger"
+                        disabled={busy}
+                        onClick={() => runAdminAction("Remove provider", client => client.removeProvider(provider.address))}
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="cards-section">
+              <div className="section-header"><h2>Administrative History</h2></div>
+              <div className="cards-list admin-table cyber-card">
+                <div className="table-header">
+                  <div className="header-cell">Event</div>
+                  <div className="header-cell">From</div>
+                  <div className="header-cell">To</div>
+                  <div className="header-cell">Date</div>
+                </div>
+                {history.length === 0 ? (
+                  <div className="no-cards"><p>No ownership or cooldown changes yet</p></div>
+                ) : history.map(entry => (
+                  <div className="card-row" key={entry.id} title={entry.transactionHash}>
+                    <div className="table-cell">{entry.name === "OwnershipTransferred" ? "Ownership transferred" : "Cooldown changed"}</div>
+                    <div className="table-cell">{entry.from}</div>
+                    <div className="table-cell">{entry.to}</div>
+                    <div className="table-cell">{new Date(entry.timestamp * 1000).toLocaleString()}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminPage;
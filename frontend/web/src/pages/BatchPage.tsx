@@ -0,0 +1,75 @@
+// BatchPage.tsx
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import React, { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { buildBatchReports } from "../batches";
+import { getClientReadOnly } from "../contract";
+import { giftCardDeployment } from "../networks";
+import { StoredEvent, syncEvents } from "../indexer";
+import { subscribeToContractEvents } from "../subscriptions";
+import BatchReportView from "../components/BatchReportView";
+import "../App.css";
+
+const BatchPage: React.FC = () => {
+  const { batchId } = useParams<{ batchId: string }>();
+  const [loading, setLoading] = useState(true);
+  const [history, setHistory] = useState<StoredEvent[]>([]);
+
+  useEffect(() => {
+    const load = async () => {
+      const client = await getClientReadOnly();
+      if (client) setHistory(await syncEvents(client, giftCardDeployment().deployBlock));
+    };
+    load().catch(e => console.error("Error loading batch history:", e)).finally(() => setLoading(false));
+  }, []);
+
+  useEffect(() => subscribeToContractEvents({ onEvents: (_, all) => setHistory(all) }), []);
+
+  const reports = buildBatchReports(history);
+  const report = reports.find(r => r.batchId === Number(batchId));
+  // Reports are newest first.
+  const index = report ? reports.indexOf(report) : -1;
+  const newer = index > 0 ? reports[index - 1] : undefined;
+  const older = index >= 0 ? reports[index + 1] : undefined;
+
+  if (loading) return (
+    <div className="loading-screen">
+      <div className="cyber-spinner"></div>
+      <p>Loading batch history...</p>
+    </div>
+  );
+
+  return (
+    <div className="app-container cyberpunk-theme">
+      <header className="app-header">
+        <div className="logo">
+          <div className="logo-icon"><div className="shield-icon"></div></div>
+          <h1>FHE<span>Gift</span>Cards</h1>
+        </div>
+        <div className="header-actions">
+          <Link to="/cards" className="cyber-button">Back to Cards</Link>
+          <div className="wallet-connect-wrapper"><ConnectButton accountStatus="address" chainStatus="icon" showBalance={false}/></div>
+        </div>
+      </header>
+
+      <div className="main-content">
+        <div className="batch-panel cyber-card">
+          <div className="section-header">
+            <h2>Batch #{batchId}</h2>
+            <div className="header-actions">
+              {older && <Link to={`/batches/${older.batchId}`} className="cyber-button">Batch #{older.batchId}</Link>}
+              {newer && <Link to={`/batches/${newer.batchId}`} className="cyber-button">Batch #{newer.batchId}</Link>}
+            </div>
+          </div>
+          {report ? (
+            <BatchReportView report={report} stillOpen={report.openedAt !== undefined && report.closedAt === undefined} />
+          ) : (
+            <p className="batch-hint">No activity has been recorded for batch #{batchId}.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchPage;
@@ -0,0 +1,179 @@
+// MerchantPage.tsx
+import { ConnectButton } from '@rainbow-me/rainbowkit';
+import React, { useCallback, useState } from "react";
+import { Link } from "react-router-dom";
+import { useAccount } from 'wagmi';
+import { formatFailure } from "../../../../src";
+import { getClientWithSigner } from "../contract";
+import { formatUnits, parseUserAmount } from "../currency";
+import { Receipt, appendReceipt, clearReceipts, loadReceipts } from "../receipts";
+import TokenScanner, { isScanningSupported } from "../components/TokenScanner";
+import CooldownButton from "../components/CooldownButton";
+import { useCooldown } from "../useCooldown";
+import "../App.css";
+
+// Accepts decimal token ids as well as 0x-prefixed hex from QR codes.
+const parseTokenId = (value: string): bigint | null => {
+  const trimmed = value.trim();
+  if (!/^(0x[0-9a-fA-F]+|\d+)$/.test(trimmed)) return null;
+  return BigInt(trimmed);
+};
+
+const shortId = (tokenId: string) => tokenId.length > 14 ? `${tokenId.substring(0, 8)}...${tokenId.substring(tokenId.length - 4)}` : tokenId;
+
+const MerchantPage: React.FC = () => {
+  const { address } = useAccount();
+  const [tokenInput, setTokenInput] = useState("");
+  const [amountInput, setAmountInput] = useState("");
+  const [scanning, setScanning] = useState(false);
+  const [processing, setProcessing] = useState(false);
+  const [result, setResult] = useState<Receipt | null>(null);
+  const [receipts, setReceipts] = useState<Receipt[]>(loadReceipts);
+  const [inputError, setInputError] = useState("");
+  // Only rendered behind the provider route guard.
+  const cooldown = useCooldown(address);
+
+  const handleScan = useCallback((value: string) => {
+    setScanning(false);
+    setTokenInput(value);
+  }, []);
+
+  const resetSale = () => {
+    setResult(null);
+    setTokenInput("");
+    setAmountInput("");
+    setInputError("");
+  };
+
+  // The merchant only learns whether the charge was approved, from the encrypted flag the contract
+  // emits with the redemption; the encrypted balance is never decrypted or shown here.
+  const charge = async () => {
+    const tokenId = parseTokenId(tokenInput);
+    const { units, error } = parseUserAmount(amountInput);
+    if (tokenId === null) { setInputError("Enter or scan a valid card number"); return; }
+    if (error) { setInputError(error); return; }
+    if (!units) { setInputError("Enter a purchase amount"); return; }
+
+    setInputError("");
+    setProcessing(true);
+    try {
+      const client = await getClientWithSigner();
+      const receipt = await cooldown.enqueue("submission", `Sale on #${shortId(tokenId.toString())}`, () => client.redeemFromCard(tokenId, units));
+      // A mined redemption of more than the balance debits nothing, so only the decrypted flag approves the sale.
+      let approved = false;
+      let reason: string | undefined;
+      try {
+        approved = await client.isRedemptionApproved(receipt);
+        if (!approved) reason = "Insufficient card balance";
+      } catch (e: any) {
+        reason = `Could not confirm the charge, check transaction ${receipt.hash}: ${formatFailure(e)}`;
+      }
+      const next = appendReceipt({ tokenId: tokenId.toString(), units: units.toString(), outcome: approved ? "approved" : "declined", transactionHash: receipt.hash, reason });
+      setReceipts(next);
+      setResult(next[0]);
+    } catch (e: any) {
+      const next = appendReceipt({ tokenId: tokenId.toString(), units: units.toString(), outcome: "declined", reason: formatFailure(e) });
+      setReceipts(next);
+      setResult(next[0]);
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  const clearLog = () => {
+    if (!window.confirm("Clear the receipt log for this session?")) return;
+    clearReceipts();
+    setReceipts([]);
+  };
+
+  return (
+    <div className="app-container cyberpunk-theme pos-container">
+      <header className="app-header">
+        <div className="logo">
+          <div className="logo-icon"><div className="shield-icon"></div></div>
+          <h1>FHE<span>Gift</span>POS</h1>
+        </div>
+        <div className="header-actions">
+          <Link to="/cards" className="cyber-button">Back to Cards</Link>
+          <div className="wallet-connect-wrapper"><ConnectButton accountStatus="address" chainStatus="icon" showBalance={false}/></div>
+        </div>
+      </header>
+
+      <div className="main-content pos-layout">
+        <div className="pos-terminal cyber-card">
+          {result ? (
+            <div className={`pos-result ${result.outcome}`}>
+              <div className="pos-result-title">{result.outcome === "approved" ? "Approved" : "Declined"}</div>
+              <p>Card #{shortId(result.tokenId)}: {formatUnits(BigInt(result.units))}</p>
+              {result.reason && <p className="pos-result-reason">{result.reason}</p>}
+              <button className="cyber-button primary pos-button" onClick={resetSale}>New Sale</button>
+            </div>
+          ) : (
+            <>
+              <div className="form-group">
+                <label>Card Number</label>
+                <div className="pos-token-row">
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    className="cyber-input pos-input"
+                    placeholder="Token ID"
+                    value={tokenInput}
+                    onChange={(e) => setTokenInput(e.target.value)}
+                  />
+                  {isScanningSupported() && (
+                    <button className="cyber-button pos-button" onClick={() => setScanning(true)}>Scan</button>
+                  )}
+                </div>
+              </div>
+              <div className="form-group">
+                <label>Purchase Amount</label>
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  className="cyber-input pos-input"
+                  placeholder="0.00"
+                  value={amountInput}
+                  onChange={(e) => setAmountInput(e.target.value)}
+                />
+              </div>
+              {inputError && <p className="pos-error">{inputError}</p>}
+              <div className="pos-charge">
+                <CooldownButton
+                  label={processing ? (cooldown.submissionRemaining > 0 ? "Waiting for cooldown..." : "Encrypting & submitting...") : "Charge Card"}
+                  remaining={processing ? 0 : cooldown.submissionRemaining}
+                  className="cyber-button primary pos-button"
+                  onClick={charge}
+                  disabled={processing}
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="pos-receipts cyber-card">
+          <div className="section-header">
+            <h2>Session Receipts</h2>
+            {receipts.length > 0 && <button className="cyber-button" onClick={clearLog}>Clear</button>}
+          </div>
+          {receipts.length === 0 ? <p className="pos-notice">No sales in this session</p> : (
+            <ul className="pos-receipt-list">
+              {receipts.map(receipt => (
+                <li key={receipt.id} className={receipt.outcome} title={receipt.transactionHash ?? receipt.reason}>
+                  <span>{new Date(receipt.timestamp).toLocaleTimeString()}</span>
+                  <span>#{shortId(receipt.tokenId)}</span>
+                  <span>{formatUnits(BigInt(receipt.units))}</span>
+                  <span className="pos-outcome">{receipt.outcome}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {scanning && <TokenScanner onScan={handleScan} onClose={() => setScanning(false)} />}
+    </div>
+  );
+};
+
+export default MerchantPage;
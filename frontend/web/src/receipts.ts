@@ -0,0 +1,35 @@
+// receipts.ts
+export interface Receipt {
+  id: string;
+  tokenId: string;
+  // Minor units as a decimal string, since bigint does not survive JSON.
+  units: string;
+  outcome: "approved" | "declined";
+  timestamp: number;
+  transactionHash?: string;
+  reason?: string;
+}
+
+// sessionStorage, so each POS session (browser tab) starts with an empty log.
+const RECEIPTS_KEY = "giftcard_pos_receipts";
+
+export function loadReceipts(): Receipt[] {
+  try {
+    const raw = sessionStorage.getItem(RECEIPTS_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.error("Error reading POS receipts:", e);
+    return [];
+  }
+}
+
+export function appendReceipt(receipt: Omit<Receipt, "id" | "timestamp">): Receipt[] {
+  const entry: Receipt = { ...receipt, id: crypto.randomUUID(), timestamp: Date.now() };
+  const receipts = [entry, ...loadReceipts()];
+  sessionStorage.setItem(RECEIPTS_KEY, JSON.stringify(receipts));
+  return receipts;
+}
+
+export function clearReceipts() {
+  sessionStorage.removeItem(RECEIPTS_KEY);
+}
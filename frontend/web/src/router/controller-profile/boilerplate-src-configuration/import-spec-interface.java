@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\router\controller-profile\boilerplate-src-configuration\import-spec-interface.java
-// Generated at: 2025-10-20T08:39:04.528Z
\ No newline at end of file
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\router\controller-profile\config-example.rs
-// Generated at: 2025-10-20T08:39:04.525Z
\ No newline at end of file
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\router\controller-profile\customer-styles-admin.rs
-// Generated at: 2025-10-20T08:39:04.524Z
\ No newline at end of file
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\router\validator.go
-// Generated at: 2025-10-20T08:39:04.521Z
\ No newline at end of file
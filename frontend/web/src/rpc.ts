@@ -0,0 +1,38 @@
+// rpc.ts
+import { NetworkConfig, PooledRpcProvider, RpcEndpointHealth, RpcPool } from "../../../src";
+import { activeNetwork } from "./networks";
+
+const DEFAULT_LOCAL_RPC_URL = "http://127.0.0.1:8545";
+
+// Keyed endpoints stay out of networks.json: VITE_RPC_URLS_<chainId> (e.g. in .env.local) is a
+// comma-separated list tried alongside the configured ones.
+const envUrls = (chainId: number): string[] =>
+  String(import.meta.env[`VITE_RPC_URLS_${chainId}`] ?? "")
+    .split(",")
+    .map(url => url.trim())
+    .filter(Boolean);
+
+// During development a local node comes first; the pool skips it when it is down or on another chain.
+const preferredUrls = import.meta.env.DEV ? [import.meta.env.VITE_LOCAL_RPC_URL || DEFAULT_LOCAL_RPC_URL] : [];
+
+// One pool per chain for the whole app, so endpoint health carries over between reads.
+const pools = new Map<number, RpcPool>();
+
+const getPool = (network: NetworkConfig): RpcPool => {
+  let pool = pools.get(network.chainId);
+  if (!pool) {
+    pool = new RpcPool([...envUrls(network.chainId), ...network.rpcUrls], network.chainId, { preferredUrls });
+    pools.set(network.chainId, pool);
+  }
+  return pool;
+};
+
+// A fresh provider over the shared pool: callers may destroy theirs (subscriptions do on reconnect)
+// without affecting anyone else.
+export function getReadProvider(network: NetworkConfig = activeNetwork()): PooledRpcProvider {
+  return new PooledRpcProvider(getPool(network));
+}
+
+export function getRpcHealth(network: NetworkConfig = activeNetwork()): RpcEndpointHealth[] {
+  return getPool(network).health();
+}
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\sms-test.py
-// Generated at: 2025-10-20T08:39:04.531Z
\ No newline at end of file
@@ -0,0 +1,132 @@
+// subscriptions.ts
+import { BaseContract } from "ethers";
+import { GiftCardClient, GiftCardEventName } from "../../../src";
+import { getClientReadOnly } from "./contract";
+import { giftCardDeployment } from "./networks";
+import { StoredEvent, syncEvents } from "./indexer";
+
+export type SubscriptionStatus = "connecting" | "live" | "reconnecting";
+
+export interface EventSubscriptionHandlers {
+  // `events` are the ones not delivered before; `history` is the full indexed log they belong to.
+  onEvents: (events: StoredEvent[], history: StoredEvent[]) => void;
+  onStatus?: (status: SubscriptionStatus) => void;
+  // Defaults to LIVE_EVENT_NAMES; other events still arrive, but only on the next heartbeat.
+  eventNames?: GiftCardEventName[];
+  // Only deliver events indexed after subscribing, for callers that read current state themselves.
+  skipHistory?: boolean;
+}
+
+export const LIVE_EVENT_NAMES: GiftCardEventName[] = [
+  "CardIssued",
+  "CardToppedUp",
+  "CardRedeemed",
+  "BatchOpened",
+  "BatchClosed",
+  "Paused",
+  "Unpaused"
+];
+
+const HEARTBEAT_INTERVAL_MS = 30000;
+const HEARTBEAT_TIMEOUT_MS = 10000;
+const MAX_RECONNECT_DELAY_MS = 60000;
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> =>
+  Promise.race([
+    promise,
+    new Promise<never>((_, reject) => setTimeout(() => reject(new Error("RPC timeout")), ms))
+  ]);
+
+// Subscribes to GiftCardFHE events on a read-only RPC. Every notification (and every heartbeat)
+// goes through the indexer, so blocks missed while the provider was down are backfilled.
+// Returns an unsubscribe function.
+export function subscribeToContractEvents(handlers: EventSubscriptionHandlers): () => void {
+  let client: GiftCardClient | null = null;
+  let stopped = false;
+  let lastDeliveredId = "";
+  let historySkipped = !handlers.skipHistory;
+  let syncing = false;
+  let syncAgain = false;
+  let heartbeat: ReturnType<typeof setInterval> | undefined;
+  let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  let reconnectDelay = 2000;
+
+  const catchUp = async () => {
+    if (!client || stopped) return;
+    if (syncing) { syncAgain = true; return; }
+    syncing = true;
+    try {
+      do {
+        syncAgain = false;
+        const history = await syncEvents(client, giftCardDeployment().deployBlock);
+        const fresh = history.filter(event => event.id > lastDeliveredId);
+        if (history.length > 0) lastDeliveredId = history[history.length - 1].id;
+        if (!historySkipped) { historySkipped = true; continue; }
+        if (!stopped && fresh.length > 0) handlers.onEvents(fresh, history);
+      } while (syncAgain && !stopped);
+    } finally {
+      syncing = false;
+    }
+  };
+
+  const teardown = () => {
+    clearInterval(heartbeat);
+    if (client) {
+      const provider = client.contract.runner?.provider;
+      client.contract.removeAllListeners().catch(() => {});
+      provider?.destroy();
+      client = null;
+    }
+  };
+
+  const scheduleReconnect = () => {
+    if (stopped || reconnectTimer) return;
+    teardown();
+    handlers.onStatus?.("reconnecting");
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = undefined;
+      connect();
+    }, reconnectDelay);
+    reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+  };
+
+  const connect = async () => {
+    try {
+      const next = await getClientReadOnly();
+      if (!next) throw new Error("GiftCardFHE contract not available");
+      if (stopped) { next.contract.runner?.provider?.destroy(); return; }
+      client = next;
+
+      // The typed contract only accepts one literal event name per call; the untyped base takes any.
+      const contract: BaseContract = client.contract;
+      for (const name of handlers.eventNames ?? LIVE_EVENT_NAMES) {
+        await contract.on(name, () => { catchUp().catch(scheduleReconnect); });
+      }
+      client.contract.runner?.provider?.on("error", scheduleReconnect);
+
+      heartbeat = setInterval(() => {
+        const provider = client?.contract.runner?.provider;
+        if (!provider) return;
+        withTimeout(provider.getBlockNumber(), HEARTBEAT_TIMEOUT_MS)
+          .then(() => catchUp())
+          .catch(scheduleReconnect);
+      }, HEARTBEAT_INTERVAL_MS);
+
+      await catchUp();
+      reconnectDelay = 2000;
+      handlers.onStatus?.("live");
+    } catch (e) {
+      console.error("Event subscription failed:", e);
+      scheduleReconnect();
+    }
+  };
+
+  handlers.onStatus?.("connecting");
+  connect();
+
+  return () => {
+    stopped = true;
+    clearTimeout(reconnectTimer);
+    teardown();
+  };
+}
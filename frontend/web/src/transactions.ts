@@ -0,0 +1,102 @@
+// transactions.ts
+import { ethers } from "ethers";
+import { NetworkConfig, TrackedTransaction, TransactionStore, TransactionTracker, explorerTransactionUrl } from "../../../src";
+import { activeNetwork } from "./networks";
+import { getReadProvider } from "./rpc";
+
+const POLL_INTERVAL_MS = 5000;
+
+// Readable names for the contract functions the app calls.
+const METHOD_LABELS: Record<string, string> = {
+  issueCard: "Issue gift card",
+  topUpCard: "Top up gift card",
+  redeemFromCard: "Redeem from gift card",
+  requestCardBalanceDecryption: "Request public balance decryption",
+  openBatch: "Open batch",
+  closeBatch: "Close batch",
+  addProvider: "Add provider",
+  removeProvider: "Remove provider",
+  pause: "Pause contract",
+  unpause: "Unpause contract",
+  setCooldownSeconds: "Change provider cooldown",
+  setDefaultValidityPeriod: "Change default card validity",
+  transferOwnership: "Transfer ownership"
+};
+
+export const methodLabel = (method: string) => METHOD_LABELS[method] ?? method;
+
+// Undefined on networks without an explorer, such as a local hardhat node.
+export const explorerTxUrl = (hash: string) => explorerTransactionUrl(activeNetwork(), hash);
+
+// Each network's history lives under its own contract's key.
+const localTransactionStore = (network: NetworkConfig): TransactionStore => {
+  const storageKey = `giftcard_transactions_${network.contracts.giftCard.address.toLowerCase()}`;
+  return {
+    load() {
+      try {
+        const raw = localStorage.getItem(storageKey);
+        return raw ? JSON.parse(raw) : [];
+      } catch (e) {
+        console.error("Error reading tracked transactions:", e);
+        return [];
+      }
+    },
+    save(transactions: TrackedTransaction[]) {
+      localStorage.setItem(storageKey, JSON.stringify(transactions));
+    }
+  };
+};
+
+const trackers = new Map<number, TransactionTracker>();
+const polls = new Map<number, number>();
+
+// Read through the network's RPC pool rather than the wallet, which may have moved to another chain
+// by the time a transaction is checked.
+const getTracker = (network: NetworkConfig = activeNetwork()): TransactionTracker => {
+  let tracker = trackers.get(network.chainId);
+  if (!tracker) {
+    tracker = new TransactionTracker(getReadProvider(network), localTransactionStore(network));
+    trackers.set(network.chainId, tracker);
+  }
+  return tracker;
+};
+
+// Polls while anything is pending, including transactions left pending by a previous visit.
+// A network keeps being polled after the wallet switches away, until its transactions settle.
+const ensurePolling = (network: NetworkConfig = activeNetwork()) => {
+  const tracker = getTracker(network);
+  if (polls.has(network.chainId) || tracker.pending().length === 0) return;
+  polls.set(network.chainId, window.setInterval(async () => {
+    try {
+      await tracker.check();
+    } catch (e) {
+      console.error("Error checking pending transactions:", e);
+    }
+    if (tracker.pending().length === 0) {
+      window.clearInterval(polls.get(network.chainId));
+      polls.delete(network.chainId);
+    }
+  }, POLL_INTERVAL_MS));
+};
+
+// GiftCardClient's onSubmitted callback; the client only sends on the active network.
+export function recordTransaction(tx: ethers.TransactionResponse, method: string) {
+  const network = activeNetwork();
+  getTracker(network)
+    .record(tx, method)
+    .then(() => ensurePolling(network))
+    .catch(e => console.error("Error recording transaction:", e));
+}
+
+// Transactions of the active network; subscribe again after a network switch.
+export function subscribeTransactions(listener: (transactions: TrackedTransaction[]) => void): () => void {
+  const tracker = getTracker();
+  const unsubscribe = tracker.subscribe(listener);
+  listener(tracker.list());
+  ensurePolling();
+  return unsubscribe;
+}
+
+export function clearFinishedTransactions() {
+  getTracker().clearFinished();
+}
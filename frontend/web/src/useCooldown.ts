@@ -0,0 +1,68 @@
+// useCooldown.ts
+import { useCallback, useEffect, useState } from "react";
+import { CooldownKind, CooldownQueue, CooldownStatus, QueuedOperation, cooldownRemaining } from "../../../src";
+import { getClientReadOnly } from "./contract";
+
+export interface CooldownState {
+  submissionRemaining: number;
+  decryptionRemaining: number;
+  queued: QueuedOperation[];
+  refresh: () => Promise<void>;
+  // Sends `run` as soon as the account's cooldown for `kind` allows it.
+  enqueue: <T>(kind: CooldownKind, label: string, run: () => Promise<T>) => Promise<T>;
+  cancel: (id: number) => void;
+}
+
+// Tracks the connected provider's cooldowns with a once-a-second countdown and owns the
+// queue that holds operations until they can be sent without reverting with CooldownActive.
+export function useCooldown(address?: string): CooldownState {
+  const [status, setStatus] = useState<CooldownStatus | null>(null);
+  const [queue, setQueue] = useState<CooldownQueue | null>(null);
+  const [queued, setQueued] = useState<QueuedOperation[]>([]);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  const refresh = useCallback(async () => {
+    if (!address) { setStatus(null); return; }
+    const client = await getClientReadOnly();
+    if (client) setStatus(await client.getCooldownStatus(address));
+  }, [address]);
+
+  useEffect(() => {
+    setQueue(null);
+    setQueued([]);
+    if (!address) { setStatus(null); return; }
+    let unsubscribe: (() => void) | undefined;
+    let cancelled = false;
+    const init = async () => {
+      const client = await getClientReadOnly();
+      if (!client || cancelled) return;
+      const next = new CooldownQueue(client, address);
+      unsubscribe = next.subscribe(setQueued);
+      setQueue(next);
+      setStatus(await client.getCooldownStatus(address));
+    };
+    init().catch(e => console.error("Error loading cooldown status:", e));
+    return () => { cancelled = true; unsubscribe?.(); };
+  }, [address]);
+
+  const submissionRemaining = status ? cooldownRemaining(status, "submission", now) : 0;
+  const decryptionRemaining = status ? cooldownRemaining(status, "decryption", now) : 0;
+
+  useEffect(() => {
+    if (submissionRemaining <= 0 && decryptionRemaining <= 0) return;
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, [submissionRemaining > 0, decryptionRemaining > 0]);
+
+  const enqueue = useCallback(<T,>(kind: CooldownKind, label: string, run: () => Promise<T>): Promise<T> => {
+    if (!queue) return Promise.reject(new Error("Connect a provider wallet first"));
+    return queue.enqueue(kind, label, run).finally(() => {
+      setNow(Math.floor(Date.now() / 1000));
+      refresh().catch(e => console.error("Error refreshing cooldown status:", e));
+    });
+  }, [queue, refresh]);
+
+  const cancel = useCallback((id: number) => queue?.cancel(id), [queue]);
+
+  return { submissionRemaining, decryptionRemaining, queued, refresh, enqueue, cancel };
+}
@@ -0,0 +1,16 @@
+// useNetwork.ts
+import { useEffect, useState } from "react";
+import { NetworkConfig } from "../../../src";
+import { activeNetwork, subscribeNetwork } from "./networks";
+
+// The deployment the app is reading from; changes when the wallet switches to another configured chain.
+export function useActiveNetwork(): NetworkConfig {
+  const [network, setNetwork] = useState<NetworkConfig>(activeNetwork);
+
+  useEffect(() => {
+    setNetwork(activeNetwork());
+    return subscribeNetwork(setNetwork);
+  }, []);
+
+  return network;
+}
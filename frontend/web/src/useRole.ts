@@ -0,0 +1,83 @@
+// useRole.ts
+import { useEffect, useState } from "react";
+import { ROLE_EVENT_NAMES, Role, RoleService } from "../../../src";
+import { getClientReadOnly } from "./contract";
+import { activeNetwork } from "./networks";
+import { subscribeToContractEvents } from "./subscriptions";
+import { useActiveNetwork } from "./useNetwork";
+
+export type { Role };
+
+export interface RoleState {
+  // null while the chain is being read.
+  role: Role | null;
+  isOwner: boolean;
+  isProvider: boolean;
+}
+
+const CUSTOMER: RoleState = { role: "customer", isOwner: false, isProvider: false };
+const LOADING: RoleState = { role: null, isOwner: false, isProvider: false };
+
+interface ActiveService {
+  chainId: number;
+  promise: Promise<RoleService | null>;
+  unsubscribe: () => void;
+}
+
+let active: ActiveService | null = null;
+
+// One service for the active network. Its event subscription lives until the wallet switches
+// network, so roles stay correct when the owner adds or removes providers or transfers
+// ownership from anywhere.
+function getRoleService(): Promise<RoleService | null> {
+  const { chainId } = activeNetwork();
+  if (!active || active.chainId !== chainId) {
+    active?.unsubscribe();
+    const current: ActiveService = { chainId, promise: Promise.resolve(null), unsubscribe: () => {} };
+    current.promise = getClientReadOnly().then(client => {
+      // Switched away while the client was loading.
+      if (!client || active !== current) return null;
+      const service = new RoleService(client);
+      // Roles are read from the chain on demand, so past role events carry nothing new.
+      current.unsubscribe = subscribeToContractEvents({
+        eventNames: ROLE_EVENT_NAMES,
+        skipHistory: true,
+        onEvents: events => service.applyEvents(events.map(event => ({ name: event.name, provider: event.args.provider })))
+      });
+      return service;
+    });
+    current.promise.catch(() => { if (active === current) active = null; });
+    active = current;
+  }
+  return active.promise;
+}
+
+// Roles of `address` (the connected wallet), re-read when the account or network changes or a role event arrives.
+export function useRole(address?: string): RoleState {
+  const [state, setState] = useState<RoleState>(address ? LOADING : CUSTOMER);
+  const network = useActiveNetwork();
+
+  useEffect(() => {
+    if (!address) { setState(CUSTOMER); return; }
+    let cancelled = false;
+    let unsubscribe = () => {};
+    setState(LOADING);
+
+    const load = (service: RoleService) => service.getRoles(address)
+      .then(({ role, isOwner, isProvider }) => { if (!cancelled) setState({ role, isOwner, isProvider }); })
+      .catch(e => { console.error("Error loading wallet role:", e); if (!cancelled) setState(CUSTOMER); });
+
+    getRoleService()
+      .then(service => {
+        if (cancelled) return;
+        if (!service) { setState(CUSTOMER); return; }
+        unsubscribe = service.subscribe(() => load(service));
+        return load(service);
+      })
+      .catch(e => { console.error("Error loading wallet role:", e); if (!cancelled) setState(CUSTOMER); });
+
+    return () => { cancelled = true; unsubscribe(); };
+  }, [address, network.chainId]);
+
+  return state;
+}
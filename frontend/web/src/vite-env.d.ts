@@ -0,0 +1,11 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Local node preferred during `vite dev`; defaults to the hardhat node on 127.0.0.1:8545.
+  readonly VITE_LOCAL_RPC_URL?: string;
+  // VITE_RPC_URLS_<chainId>: extra comma-separated RPC URLs for that chain, e.g. keyed endpoints in .env.local.
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,4 +1,5 @@
-import { defineConfig } from "vite";
+import path from "path";
+import { defineConfig, searchForWorkspaceRoot } from "vite";
 import react from "@vitejs/plugin-react";
 
 export default defineConfig({
@@ -6,6 +7,19 @@ export default defineConfig({
   define: {
     'process.env': process.env
   },
+  resolve: {
+    // The shared GiftCardClient in ../../src must use the app's ethers instance.
+    dedupe: ["ethers"]
+  },
+  server: {
+    fs: {
+      allow: [
+        searchForWorkspaceRoot(process.cwd()),
+        path.resolve(__dirname, "../../src"),
+        path.resolve(__dirname, "../../types")
+      ]
+    }
+  },
   esbuild: {
     target: "es2022",
     supported: {
@@ -20,4 +34,4 @@ export default defineConfig({
       }
     }
   }
-});
\ No newline at end of file
+});
@@ -1,8 +1,10 @@
-import { HardhatUserConfig } from "hardhat/config";
+import { HardhatUserConfig, vars } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
 
+import "./tasks/deployments";
+
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
   networks: {
@@ -11,8 +13,12 @@ const config: HardhatUserConfig = {
     },
     sepolia: {
       chainId: 11155111,
-      url: "https://sepolia.drpc.org",
-      accounts: [],
+      url: vars.get("SEPOLIA_RPC_URL", "https://sepolia.drpc.org"),
+      // Set with `npx hardhat vars set SEPOLIA_PRIVATE_KEY`; the deploy script
+      // also takes keys from the environment, a keystore or a mnemonic.
+      accounts: vars.has("SEPOLIA_PRIVATE_KEY")
+        ? [vars.get("SEPOLIA_PRIVATE_KEY")]
+        : [],
     },
   },
   solidity: {
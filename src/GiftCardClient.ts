@@ -0,0 +1,551 @@
+import {
+  AddressLike,
+  BigNumberish,
+  ContractRunner,
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  Signer,
+  ZeroHash,
+  isError,
+  toBeHex,
+} from "ethers";
+
+import type { GiftCardFHE } from "../types/contracts/Gift_Card_Fhe.sol/GiftCardFHE";
+import { GiftCardFHE__factory } from "../types/factories/contracts/Gift_Card_Fhe.sol/GiftCardFHE__factory";
+import {
+  DecryptionSessionStore,
+  EncryptedInput,
+  FhevmClient,
+  MemorySessionStore,
+  encryptUint32,
+  getDecryptionSession,
+  isEncryptedInput,
+  userDecryptUint,
+} from "./encryption";
+import { CooldownStatus } from "./cooldown";
+import {
+  DEFAULT_DECRYPTION_POLL_INTERVAL_MS,
+  DEFAULT_DECRYPTION_TIMEOUT_MS,
+  DecryptionRequestReceipt,
+  DecryptionResult,
+  DecryptionTimeoutError,
+  WaitForDecryptionOptions,
+  decryptionStateHash,
+} from "./decryption";
+import {
+  CardExpiredError,
+  CardNotFoundError,
+  StateMismatchError,
+  toGiftCardError,
+} from "./errors";
+import { GiftCardEvent, decodeGiftCardEvent } from "./events";
+import { NO_EXPIRY, isExpired } from "./expiry";
+import {
+  ConfirmTransaction,
+  TransactionCancelledError,
+  TransactionPreview,
+} from "./preflight";
+
+export interface GiftCardClientOptions {
+  address: string;
+  runner: ContractRunner;
+  fhevm?: FhevmClient;
+  sessionStore?: DecryptionSessionStore;
+  // Maximum block span per eth_getLogs call; public RPCs reject much larger ranges.
+  logChunkSize?: number;
+  // Called with the simulated gas and fee before each write is signed. Without
+  // it, writes are still simulated but sent without asking.
+  confirm?: ConfirmTransaction;
+  // Called as soon as a write is accepted by the wallet, before it is mined,
+  // so the caller can keep track of it across reloads.
+  onSubmitted?: (tx: ContractTransactionResponse, method: string) => void;
+}
+
+export interface BatchState {
+  currentBatchId: bigint;
+  batchOpen: boolean;
+}
+
+// Amounts are raw euint32 units, or an input that was already encrypted for this contract and sender.
+export type AmountInput = bigint | number | EncryptedInput;
+
+// The parts of a typechain contract method that the write pipeline uses.
+interface WriteMethod<A extends unknown[]> {
+  (...args: A): Promise<ContractTransactionResponse>;
+  name: string;
+  staticCall(...args: A): Promise<unknown>;
+  estimateGas(...args: A): Promise<bigint>;
+}
+
+const DEFAULT_LOG_CHUNK_SIZE = 10000;
+
+const isCallException = (error: unknown) => isError(error, "CALL_EXCEPTION");
+
+export class GiftCardClient {
+  readonly address: string;
+  readonly contract: GiftCardFHE;
+  private readonly fhevm?: FhevmClient;
+  private readonly sessionStore: DecryptionSessionStore;
+  private readonly logChunkSize: number;
+  private readonly confirm?: ConfirmTransaction;
+  private readonly onSubmitted?: (
+    tx: ContractTransactionResponse,
+    method: string,
+  ) => void;
+
+  constructor(options: GiftCardClientOptions) {
+    this.address = options.address;
+    this.contract = GiftCardFHE__factory.connect(
+      options.address,
+      options.runner,
+    );
+    this.fhevm = options.fhevm;
+    this.sessionStore = options.sessionStore ?? new MemorySessionStore();
+    this.logChunkSize = options.logChunkSize ?? DEFAULT_LOG_CHUNK_SIZE;
+    this.confirm = options.confirm;
+    this.onSubmitted = options.onSubmitted;
+  }
+
+  // ---- reads ----
+
+  async owner(): Promise<string> {
+    return this.call(() => this.contract.owner());
+  }
+
+  async isProvider(account: AddressLike): Promise<boolean> {
+    return this.call(() => this.contract.providers(account));
+  }
+
+  async isPaused(): Promise<boolean> {
+    return this.call(() => this.contract.paused());
+  }
+
+  async cooldownSeconds(): Promise<bigint> {
+    return this.call(() => this.contract.cooldownSeconds());
+  }
+
+  async getCooldownStatus(account: AddressLike): Promise<CooldownStatus> {
+    const [cooldownSeconds, lastSubmissionTime, lastDecryptionRequestTime] =
+      await this.call(() =>
+        Promise.all([
+          this.contract.cooldownSeconds(),
+          this.contract.lastSubmissionTime(account),
+          this.contract.lastDecryptionRequestTime(account),
+        ]),
+      );
+    return {
+      cooldownSeconds: Number(cooldownSeconds),
+      lastSubmissionTime: Number(lastSubmissionTime),
+      lastDecryptionRequestTime: Number(lastDecryptionRequestTime),
+    };
+  }
+
+  async getBatchState(): Promise<BatchState> {
+    const [currentBatchId, batchOpen] = await this.call(() =>
+      Promise.all([this.contract.currentBatchId(), this.contract.batchOpen()]),
+    );
+    return { currentBatchId, batchOpen };
+  }
+
+  async cardExists(tokenId: BigNumberish): Promise<boolean> {
+    const card = await this.call(() => this.contract.giftCards(tokenId));
+    return card.encryptedBalance !== ZeroHash;
+  }
+
+  // Unix seconds, or NO_EXPIRY (0) for cards that never expire.
+  async getCardExpiry(tokenId: BigNumberish): Promise<number> {
+    const card = await this.call(() => this.contract.giftCards(tokenId));
+    return Number(card.expiresAt);
+  }
+
+  async getCardHolder(tokenId: BigNumberish): Promise<string> {
+    const card = await this.call(() => this.contract.giftCards(tokenId));
+    return card.holder;
+  }
+
+  async getDefaultValidityPeriod(issuer: AddressLike): Promise<number> {
+    return Number(
+      await this.call(() => this.contract.defaultValidityPeriod(issuer)),
+    );
+  }
+
+  async getBalanceHandle(tokenId: BigNumberish): Promise<string> {
+    return this.call(() => this.contract.getCardBalance(tokenId));
+  }
+
+  // getCardBalance reverts with a plain string for unknown cards; this turns
+  // that revert into CardNotFoundError and returns the balance handle otherwise.
+  async requireCard(tokenId: BigNumberish): Promise<string> {
+    try {
+      return await this.contract.getCardBalance(tokenId);
+    } catch (error) {
+      if (isCallException(error)) throw new CardNotFoundError({ cause: error });
+      throw toGiftCardError(error);
+    }
+  }
+
+  // ---- encryption ----
+
+  async encryptAmount(
+    units: bigint | number,
+    userAddress?: string,
+  ): Promise<EncryptedInput> {
+    const sender = userAddress ?? (await this.signer().getAddress());
+    return encryptUint32(this.requireFhevm(), this.address, sender, units);
+  }
+
+  // Decrypts a card balance for the connected signer. The signature is reused from
+  // the session store until it expires, so the user signs once per validity window.
+  async decryptBalance(tokenId: BigNumberish): Promise<bigint> {
+    const fhevm = this.requireFhevm();
+    const handle = await this.getBalanceHandle(tokenId);
+    const session = await getDecryptionSession(
+      fhevm,
+      this.sessionStore,
+      this.signer(),
+      this.address,
+    );
+    return userDecryptUint(fhevm, session, handle);
+  }
+
+  // Decrypts the approval flag of a redemption sent by the connected signer. The
+  // contract debits nothing when the amount exceeds the balance, so a mined
+  // redemption is only a successful charge when this returns true.
+  async isRedemptionApproved(
+    receipt: ContractTransactionReceipt,
+  ): Promise<boolean> {
+    const event = receipt.logs
+      .map(decodeGiftCardEvent)
+      .find((decoded) => decoded?.name === "CardRedeemed");
+    if (event?.name !== "CardRedeemed") {
+      throw new Error(`Transaction ${receipt.hash} did not emit CardRedeemed`);
+    }
+    const fhevm = this.requireFhevm();
+    const session = await getDecryptionSession(
+      fhevm,
+      this.sessionStore,
+      this.signer(),
+      this.address,
+    );
+    const handle = toBeHex(event.encryptedApproved, 32);
+    return (await userDecryptUint(fhevm, session, handle)) === 1n;
+  }
+
+  // ---- public decryption ----
+
+  // Asks the decryption oracle to publish the card's balance. The result arrives
+  // asynchronously as DecryptionCompleted; see waitForDecryption.
+  async requestBalanceDecryption(
+    tokenId: BigNumberish,
+  ): Promise<DecryptionRequestReceipt> {
+    const receipt = await this.send(
+      this.contract.requestCardBalanceDecryption,
+      [tokenId],
+    );
+    for (const log of receipt.logs) {
+      const event = decodeGiftCardEvent(log);
+      if (event?.name === "DecryptionRequested") {
+        return {
+          requestId: event.requestId,
+          batchId: event.batchId,
+          blockNumber: receipt.blockNumber,
+          transactionHash: receipt.hash,
+        };
+      }
+    }
+    throw new Error(
+      `Transaction ${receipt.hash} did not emit DecryptionRequested`,
+    );
+  }
+
+  async findDecryptionResult(
+    requestId: bigint,
+    fromBlock: number,
+    toBlock?: number,
+  ): Promise<DecryptionResult | null> {
+    const events = await this.queryEvents(fromBlock, toBlock);
+    for (const event of events) {
+      if (
+        event.name === "DecryptionCompleted" &&
+        event.requestId === requestId
+      ) {
+        return {
+          requestId,
+          batchId: event.batchId,
+          decryptedBalance: event.decryptedBalance,
+          blockNumber: event.blockNumber,
+          transactionHash: event.transactionHash,
+        };
+      }
+    }
+    return null;
+  }
+
+  // Polls for DecryptionCompleted until `timeoutMs`, scanning only the blocks
+  // mined since the previous poll. On timeout, throws StateMismatchError when
+  // the card changed since the request (the callback can then never succeed),
+  // otherwise DecryptionTimeoutError.
+  async waitForDecryption(
+    requestId: bigint,
+    options: WaitForDecryptionOptions,
+  ): Promise<DecryptionResult> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_DECRYPTION_TIMEOUT_MS;
+    const pollIntervalMs =
+      options.pollIntervalMs ?? DEFAULT_DECRYPTION_POLL_INTERVAL_MS;
+    const deadline = Date.now() + timeoutMs;
+    const provider = this.contract.runner?.provider;
+    if (!provider) throw new Error("GiftCardClient runner has no provider");
+
+    let fromBlock = options.fromBlock;
+    for (;;) {
+      const toBlock = await provider.getBlockNumber();
+      if (toBlock >= fromBlock) {
+        const result = await this.findDecryptionResult(
+          requestId,
+          fromBlock,
+          toBlock,
+        );
+        if (result) return result;
+        fromBlock = toBlock + 1;
+      }
+      if (await this.isDecryptionStale(requestId)) {
+        throw new StateMismatchError();
+      }
+      if (Date.now() >= deadline) throw new DecryptionTimeoutError(requestId);
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.min(pollIntervalMs, deadline - Date.now())),
+      );
+    }
+  }
+
+  // True once the requested card's balance no longer matches the hash stored
+  // with the request, i.e. the oracle's answer would be rejected with StateMismatch.
+  async isDecryptionStale(requestId: bigint): Promise<boolean> {
+    const context = await this.call(() =>
+      this.contract.decryptionContexts(requestId),
+    );
+    if (context.processed || context.stateHash === ZeroHash) return false;
+    const handle = await this.getBalanceHandle(context.tokenId);
+    return decryptionStateHash(this.address, handle) !== context.stateHash;
+  }
+
+  // ---- card operations ----
+
+  // The holder may user-decrypt the balance alongside the provider. expiresAt is
+  // unix seconds; NO_EXPIRY lets the contract apply the issuer's default validity period.
+  async issueCard(
+    tokenId: BigNumberish,
+    holder: AddressLike,
+    amount: AmountInput,
+    expiresAt: number = NO_EXPIRY,
+  ): Promise<ContractTransactionReceipt> {
+    const input = await this.toEncryptedInput(amount);
+    return this.send(this.contract.issueCard, [
+      tokenId,
+      holder,
+      input.handle,
+      input.inputProof,
+      expiresAt,
+    ]);
+  }
+
+  async topUpCard(
+    tokenId: BigNumberish,
+    amount: AmountInput,
+  ): Promise<ContractTransactionReceipt> {
+    const input = await this.toEncryptedInput(amount);
+    return this.send(this.contract.topUpCard, [
+      tokenId,
+      input.handle,
+      input.inputProof,
+    ]);
+  }
+
+  // Checks expiry before encrypting so an expired card fails fast instead of reverting on-chain.
+  async redeemFromCard(
+    tokenId: BigNumberish,
+    amount: AmountInput,
+  ): Promise<ContractTransactionReceipt> {
+    if (isExpired(await this.getCardExpiry(tokenId))) {
+      throw new CardExpiredError();
+    }
+    const input = await this.toEncryptedInput(amount);
+    return this.send(this.contract.redeemFromCard, [
+      tokenId,
+      input.handle,
+      input.inputProof,
+    ]);
+  }
+
+  // ---- batches ----
+
+  async openBatch(): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.openBatch, []);
+  }
+
+  async closeBatch(): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.closeBatch, []);
+  }
+
+  // ---- administration ----
+
+  async addProvider(
+    provider: AddressLike,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.addProvider, [provider]);
+  }
+
+  async removeProvider(
+    provider: AddressLike,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.removeProvider, [provider]);
+  }
+
+  async pause(): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.pause, []);
+  }
+
+  async unpause(): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.unpause, []);
+  }
+
+  async setCooldownSeconds(
+    seconds: BigNumberish,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.setCooldownSeconds, [seconds]);
+  }
+
+  async setDefaultValidityPeriod(
+    seconds: BigNumberish,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.setDefaultValidityPeriod, [seconds]);
+  }
+
+  async transferOwnership(
+    newOwner: AddressLike,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.transferOwnership, [newOwner]);
+  }
+
+  // ---- events ----
+
+  async queryEvents(
+    fromBlock: number,
+    toBlock?: number,
+  ): Promise<GiftCardEvent[]> {
+    const provider = this.contract.runner?.provider;
+    if (!provider) throw new Error("GiftCardClient runner has no provider");
+    const lastBlock = toBlock ?? (await provider.getBlockNumber());
+
+    const events: GiftCardEvent[] = [];
+    for (
+      let start = fromBlock;
+      start <= lastBlock;
+      start += this.logChunkSize
+    ) {
+      const end = Math.min(start + this.logChunkSize - 1, lastBlock);
+      const logs = await provider.getLogs({
+        address: this.address,
+        fromBlock: start,
+        toBlock: end,
+      });
+      for (const log of logs) {
+        const event = decodeGiftCardEvent(log);
+        if (event) events.push(event);
+      }
+    }
+    return events;
+  }
+
+  // ---- internals ----
+
+  private signer(): Signer {
+    const runner = this.contract.runner as Signer | null;
+    if (!runner || typeof runner.getAddress !== "function") {
+      throw new Error(
+        "GiftCardClient needs a Signer runner for this operation",
+      );
+    }
+    return runner;
+  }
+
+  private requireFhevm(): FhevmClient {
+    if (!this.fhevm)
+      throw new Error("GiftCardClient was created without an FHEVM instance");
+    return this.fhevm;
+  }
+
+  private async toEncryptedInput(amount: AmountInput): Promise<EncryptedInput> {
+    return isEncryptedInput(amount) ? amount : this.encryptAmount(amount);
+  }
+
+  private async call<T>(fn: () => Promise<T>): Promise<T> {
+    try {
+      return await fn();
+    } catch (error) {
+      throw toGiftCardError(error);
+    }
+  }
+
+  // Simulates the call from the signer and estimates its gas and fee. A call
+  // that would revert throws its decoded error here, before any signature.
+  private async preview<A extends unknown[]>(
+    method: WriteMethod<A>,
+    args: A,
+  ): Promise<TransactionPreview> {
+    const provider = this.contract.runner?.provider;
+    if (!provider) throw new Error("GiftCardClient runner has no provider");
+    try {
+      await method.staticCall(...args);
+      const [gasLimit, feeData, from] = await Promise.all([
+        method.estimateGas(...args),
+        provider.getFeeData(),
+        this.signer().getAddress(),
+      ]);
+      const feePerGas = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+      return {
+        method: method.name,
+        contractAddress: this.address,
+        from,
+        gasLimit,
+        feePerGas,
+        estimatedFee: gasLimit * feePerGas,
+      };
+    } catch (error) {
+      throw toGiftCardError(error);
+    }
+  }
+
+  // Every write goes through preview and, when configured, confirm.
+  private async send<A extends unknown[]>(
+    method: WriteMethod<A>,
+    args: A,
+  ): Promise<ContractTransactionReceipt> {
+    const preview = await this.preview(method, args);
+    if (this.confirm && !(await this.confirm(preview))) {
+      throw new TransactionCancelledError(preview.method);
+    }
+    try {
+      const tx = await method(...args);
+      this.onSubmitted?.(tx, preview.method);
+      const receipt = await tx.wait();
+      if (!receipt) throw new Error(`Transaction ${tx.hash} was not mined`);
+      return receipt;
+    } catch (error) {
+      // A speed-up from the wallet mines the same call under a new hash; only
+      // a cancel or an unrelated replacement is a failure.
+      if (
+        isError(error, "TRANSACTION_REPLACED") &&
+        error.reason === "repriced" &&
+        error.receipt.status === 1
+      ) {
+        return new ContractTransactionReceipt(
+          this.contract.interface,
+          error.receipt.provider,
+          error.receipt,
+        );
+      }
+      throw toGiftCardError(error);
+    }
+  }
+}
@@ -0,0 +1,176 @@
+import type { GiftCardClient } from "./GiftCardClient";
+
+// Submissions (issue/top-up/redeem) and decryption requests have separate
+// per-provider clocks, both checked against the same cooldownSeconds.
+export type CooldownKind = "submission" | "decryption";
+
+export interface CooldownStatus {
+  cooldownSeconds: number;
+  lastSubmissionTime: number;
+  lastDecryptionRequestTime: number;
+}
+
+export interface QueuedOperation {
+  id: number;
+  kind: CooldownKind;
+  label: string;
+  enqueuedAt: number;
+}
+
+export class OperationCancelledError extends Error {
+  constructor(label: string) {
+    super(`${label} was removed from the queue`);
+    this.name = "OperationCancelledError";
+  }
+}
+
+// block.timestamp can lag the local clock by a few seconds; waiting slightly
+// longer avoids sending a transaction the chain still considers early.
+export const COOLDOWN_MARGIN_SECONDS = 3;
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+export function cooldownReadyAt(
+  status: CooldownStatus,
+  kind: CooldownKind,
+): number {
+  const last =
+    kind === "submission"
+      ? status.lastSubmissionTime
+      : status.lastDecryptionRequestTime;
+  return last === 0 ? 0 : last + status.cooldownSeconds;
+}
+
+export function cooldownRemaining(
+  status: CooldownStatus,
+  kind: CooldownKind,
+  now: number = nowSeconds(),
+): number {
+  const readyAt = cooldownReadyAt(status, kind);
+  return readyAt === 0
+    ? 0
+    : Math.max(0, readyAt + COOLDOWN_MARGIN_SECONDS - now);
+}
+
+interface QueueEntry extends QueuedOperation {
+  run: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+// Holds operations for one provider account and sends each only once its
+// cooldown has elapsed. Operations run one at a time because every successful
+// submission restarts the clock for the next one.
+export class CooldownQueue {
+  private readonly entries: QueueEntry[] = [];
+  private readonly listeners = new Set<(queued: QueuedOperation[]) => void>();
+  private nextId = 1;
+  private running = false;
+  private sendingId?: number;
+
+  constructor(
+    private readonly client: Pick<GiftCardClient, "getCooldownStatus">,
+    private readonly account: string,
+  ) {}
+
+  enqueue<T>(
+    kind: CooldownKind,
+    label: string,
+    run: () => Promise<T>,
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.entries.push({
+        id: this.nextId++,
+        kind,
+        label,
+        enqueuedAt: Date.now(),
+        run,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+      this.notify();
+      void this.drain();
+    });
+  }
+
+  // Only operations still waiting can be cancelled; one already sent is left to finish.
+  cancel(id: number): void {
+    if (id === this.sendingId) return;
+    const index = this.entries.findIndex((entry) => entry.id === id);
+    if (index === -1) return;
+    const [entry] = this.entries.splice(index, 1);
+    entry.reject(new OperationCancelledError(entry.label));
+    this.notify();
+  }
+
+  queued(): QueuedOperation[] {
+    return this.entries.map(({ id, kind, label, enqueuedAt }) => ({
+      id,
+      kind,
+      label,
+      enqueuedAt,
+    }));
+  }
+
+  subscribe(listener: (queued: QueuedOperation[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify(): void {
+    const queued = this.queued();
+    this.listeners.forEach((listener) => listener(queued));
+  }
+
+  private async drain(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+    try {
+      while (this.entries.length > 0) {
+        const entry = this.entries[0];
+        try {
+          await this.waitForCooldown(entry.kind);
+        } catch (error) {
+          this.settle(entry, () => entry.reject(error));
+          continue;
+        }
+        // Cancelled while waiting.
+        if (this.entries[0] !== entry) continue;
+
+        this.sendingId = entry.id;
+        try {
+          const result = await entry.run();
+          this.settle(entry, () => entry.resolve(result));
+        } catch (error) {
+          this.settle(entry, () => entry.reject(error));
+        } finally {
+          this.sendingId = undefined;
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Re-reads the chain before every send: another tab or device may have used the cooldown meanwhile.
+  private async waitForCooldown(kind: CooldownKind): Promise<void> {
+    let wait = cooldownRemaining(
+      await this.client.getCooldownStatus(this.account),
+      kind,
+    );
+    while (wait > 0) {
+      await new Promise((resolve) => setTimeout(resolve, wait * 1000));
+      wait = cooldownRemaining(
+        await this.client.getCooldownStatus(this.account),
+        kind,
+      );
+    }
+  }
+
+  private settle(entry: QueueEntry, settle: () => void): void {
+    const index = this.entries.indexOf(entry);
+    if (index !== -1) this.entries.splice(index, 1);
+    settle();
+    this.notify();
+  }
+}
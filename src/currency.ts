@@ -0,0 +1,178 @@
+import { MAX_UINT32 } from "./encryption";
+
+// Balances are stored as euint32 counts of minor units. Each deployment picks
+// how many minor units make one major unit (2 for cents, 0 for whole points),
+// which also fixes the largest balance a card can hold.
+export interface CurrencyConfig {
+  // ISO 4217 code used for display; any other label is shown verbatim.
+  code: string;
+  decimals: number;
+}
+
+export const DEFAULT_CURRENCY: CurrencyConfig = { code: "USD", decimals: 2 };
+
+export class AmountError extends RangeError {
+  constructor(message: string) {
+    super(message);
+    this.name = "AmountError";
+  }
+}
+
+const scale = (currency: CurrencyConfig) => 10n ** BigInt(currency.decimals);
+
+export function assertCurrencyConfig(currency: CurrencyConfig): CurrencyConfig {
+  if (
+    !Number.isInteger(currency.decimals) ||
+    currency.decimals < 0 ||
+    currency.decimals > 9
+  ) {
+    throw new AmountError(
+      `Currency decimals must be an integer from 0 to 9, got ${currency.decimals}`,
+    );
+  }
+  return currency;
+}
+
+// Group and decimal separators for `locale`, e.g. "," and "." for en-US, "." and "," for de-DE.
+function localeSeparators(locale?: string): { group: string; decimal: string } {
+  const parts = new Intl.NumberFormat(locale).formatToParts(12345.6);
+  return {
+    group: parts.find((p) => p.type === "group")?.value ?? ",",
+    decimal: parts.find((p) => p.type === "decimal")?.value ?? ".",
+  };
+}
+
+function assertEncryptable(units: bigint, currency: CurrencyConfig): bigint {
+  if (units < 0n) throw new AmountError("Amount cannot be negative");
+  if (units > MAX_UINT32) {
+    throw new AmountError(
+      `Amount exceeds the largest encryptable balance of ${formatAmount(MAX_UINT32, currency)}`,
+    );
+  }
+  return units;
+}
+
+// Drops group separators from the whole part, or returns null when one is not
+// followed by exactly three digits: "1,5" in en-US is a mistyped "1.5", not 15.
+function ungroup(whole: string, group: string): string | null {
+  const [first, ...rest] = whole.split(group);
+  if (rest.length === 0) return first;
+  if (
+    !/^\d{1,3}$/.test(first) ||
+    rest.some((digits) => !/^\d{3}$/.test(digits))
+  )
+    return null;
+  return first + rest.join("");
+}
+
+// Parses user input such as "1,234.56" (en-US) or "1.234,56" (de-DE) into minor
+// units without going through floating point. Rejects misplaced group
+// separators, more fraction digits than the currency allows and anything that
+// would not fit in a euint32.
+export function parseAmount(
+  input: string,
+  currency: CurrencyConfig = DEFAULT_CURRENCY,
+  locale?: string,
+): bigint {
+  const { group, decimal } = localeSeparators(locale);
+  // Locales that group with a (narrow) no-break space also accept a plain one.
+  const spaced = /^[\s\u00a0\u202f]$/.test(group);
+  const [grouped, ...fractions] = input
+    .trim()
+    .replace(/[\s\u00a0\u202f]/g, spaced ? group : "")
+    .split(decimal);
+  const digits = ungroup(grouped, group);
+  const normalized =
+    digits === null || fractions.length > 1
+      ? ""
+      : [digits, ...fractions].join(".");
+  const match = /^(\d*)(?:\.(\d*))?$/.exec(normalized);
+  if (!match || (match[1] === "" && !match[2])) {
+    throw new AmountError(`"${input}" is not a valid amount`);
+  }
+  const [, whole, fraction = ""] = match;
+  if (fraction.length > currency.decimals) {
+    throw new AmountError(
+      currency.decimals === 0
+        ? `${currency.code} amounts cannot have decimals`
+        : `${currency.code} amounts have at most ${currency.decimals} decimal places`,
+    );
+  }
+  const units =
+    BigInt(whole || "0") * scale(currency) +
+    BigInt(fraction.padEnd(currency.decimals, "0") || "0");
+  return assertEncryptable(units, currency);
+}
+
+// For amounts that are already numbers (legacy data, numeric form fields).
+export function toMinorUnits(
+  amount: number,
+  currency: CurrencyConfig = DEFAULT_CURRENCY,
+): bigint {
+  if (!Number.isFinite(amount))
+    throw new AmountError(`${amount} is not a valid amount`);
+  if (amount < 0) throw new AmountError("Amount cannot be negative");
+  return parseAmount(
+    amount.toLocaleString("en-US", {
+      useGrouping: false,
+      maximumFractionDigits: 20,
+    }),
+    currency,
+    "en-US",
+  );
+}
+
+export function fromMinorUnits(
+  units: bigint | number,
+  currency: CurrencyConfig = DEFAULT_CURRENCY,
+): number {
+  return Number(units) / 10 ** currency.decimals;
+}
+
+export function formatAmount(
+  units: bigint | number,
+  currency: CurrencyConfig = DEFAULT_CURRENCY,
+  locale?: string,
+): string {
+  const value = fromMinorUnits(units, currency);
+  const digits = {
+    minimumFractionDigits: currency.decimals,
+    maximumFractionDigits: currency.decimals,
+  };
+  try {
+    return new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency: currency.code,
+      ...digits,
+    }).format(value);
+  } catch {
+    // Not an ISO currency code; show the label after the number instead.
+    return `${new Intl.NumberFormat(locale, digits).format(value)} ${currency.code}`;
+  }
+}
+
+export interface TopUpRisk {
+  // "overflow" when the known balance plus the top-up exceeds the euint32
+  // range; "possible" when the balance is unknown and the top-up alone uses
+  // more than half of it.
+  kind: "overflow" | "possible";
+  // Largest balance the card can hold for this top-up not to wrap.
+  maxSafeBalance: bigint;
+}
+
+// The encrypted addition in topUpCard wraps modulo 2^32 instead of reverting,
+// so an oversized top-up silently leaves the card with a tiny balance.
+export function topUpRisk(
+  topUpUnits: bigint,
+  balanceUnits?: bigint,
+): TopUpRisk | null {
+  const maxSafeBalance = MAX_UINT32 - topUpUnits;
+  if (balanceUnits !== undefined) {
+    return balanceUnits > maxSafeBalance
+      ? { kind: "overflow", maxSafeBalance }
+      : null;
+  }
+  return topUpUnits > MAX_UINT32 / 2n
+    ? { kind: "possible", maxSafeBalance }
+    : null;
+}
@@ -0,0 +1,51 @@
+import { AbiCoder, keccak256 } from "ethers";
+
+export interface DecryptionResult {
+  requestId: bigint;
+  batchId: bigint;
+  decryptedBalance: bigint;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface DecryptionRequestReceipt {
+  requestId: bigint;
+  batchId: bigint;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface WaitForDecryptionOptions {
+  // Block to start searching for DecryptionCompleted; usually the request's own block.
+  fromBlock: number;
+  timeoutMs?: number;
+  pollIntervalMs?: number;
+}
+
+export const DEFAULT_DECRYPTION_TIMEOUT_MS = 10 * 60 * 1000;
+export const DEFAULT_DECRYPTION_POLL_INTERVAL_MS = 15 * 1000;
+
+// The oracle never answered within the timeout, and nothing on-chain explains why.
+export class DecryptionTimeoutError extends Error {
+  constructor(requestId: bigint) {
+    super(
+      `The decryption oracle has not answered request ${requestId} yet. ` +
+        "It may still arrive later; check again or submit a new request.",
+    );
+    this.name = "DecryptionTimeoutError";
+  }
+}
+
+// Mirrors GiftCardFHE._hashCiphertexts for a single balance handle, so a client
+// can tell whether the card changed since the request without waiting on the oracle.
+export function decryptionStateHash(
+  contractAddress: string,
+  handle: string,
+): string {
+  return keccak256(
+    AbiCoder.defaultAbiCoder().encode(
+      ["bytes32[]", "address"],
+      [[handle], contractAddress],
+    ),
+  );
+}
@@ -0,0 +1,173 @@
+import { Signer, hexlify } from "ethers";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/node";
+
+export const MAX_UINT32 = 2n ** 32n - 1n;
+
+// The subset of the relayer SDK instance the client needs; the web, bundle and
+// node builds of @zama-fhe/relayer-sdk all satisfy it.
+export type FhevmClient = Pick<
+  FhevmInstance,
+  | "createEncryptedInput"
+  | "generateKeypair"
+  | "createEIP712"
+  | "userDecrypt"
+  | "publicDecrypt"
+>;
+
+export interface EncryptedInput {
+  handle: string;
+  inputProof: string;
+}
+
+export interface DecryptionSession {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  userAddress: string;
+  contractAddress: string;
+  chainId: number;
+  startTimestamp: number;
+  durationDays: number;
+}
+
+export interface DecryptionSessionStore {
+  get(key: string): DecryptionSession | null;
+  set(key: string, session: DecryptionSession): void;
+}
+
+export class MemorySessionStore implements DecryptionSessionStore {
+  private readonly sessions = new Map<string, DecryptionSession>();
+
+  get(key: string): DecryptionSession | null {
+    return this.sessions.get(key) ?? null;
+  }
+
+  set(key: string, session: DecryptionSession): void {
+    this.sessions.set(key, session);
+  }
+}
+
+export const DEFAULT_DECRYPTION_DURATION_DAYS = 30;
+// Re-sign slightly before expiry so a request never races the relayer's validity check.
+const SESSION_EXPIRY_MARGIN_SECONDS = 300;
+
+export function isEncryptedInput(value: unknown): value is EncryptedInput {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "handle" in value &&
+    "inputProof" in value
+  );
+}
+
+export function assertUint32(units: bigint | number): bigint {
+  const value = BigInt(units);
+  if (value < 0n || value > MAX_UINT32) {
+    throw new RangeError(`Amount ${value} does not fit in an encrypted uint32`);
+  }
+  return value;
+}
+
+// Builds an externalEuint32 handle plus its input proof. The proof is bound to
+// both the contract and the sender, so it must be submitted by `userAddress`.
+export async function encryptUint32(
+  fhevm: FhevmClient,
+  contractAddress: string,
+  userAddress: string,
+  units: bigint | number,
+): Promise<EncryptedInput> {
+  const input = fhevm.createEncryptedInput(contractAddress, userAddress);
+  input.add32(assertUint32(units));
+  const { handles, inputProof } = await input.encrypt();
+  return { handle: hexlify(handles[0]), inputProof: hexlify(inputProof) };
+}
+
+export function sessionExpiresAt(session: DecryptionSession): number {
+  return session.startTimestamp + session.durationDays * 24 * 60 * 60;
+}
+
+export function sessionKey(
+  userAddress: string,
+  contractAddress: string,
+  chainId: number,
+): string {
+  return `${chainId}_${contractAddress.toLowerCase()}_${userAddress.toLowerCase()}`;
+}
+
+// Returns the stored keypair and EIP-712 signature for this user/contract/chain,
+// asking the signer for a new signature only once the previous one expired.
+export async function getDecryptionSession(
+  fhevm: FhevmClient,
+  store: DecryptionSessionStore,
+  signer: Signer,
+  contractAddress: string,
+  durationDays: number = DEFAULT_DECRYPTION_DURATION_DAYS,
+): Promise<DecryptionSession> {
+  if (!signer.provider)
+    throw new Error("Signer is not connected to a provider");
+  const userAddress = await signer.getAddress();
+  const chainId = Number((await signer.provider.getNetwork()).chainId);
+  const key = sessionKey(userAddress, contractAddress, chainId);
+
+  const now = Math.floor(Date.now() / 1000);
+  const cached = store.get(key);
+  if (
+    cached &&
+    now < sessionExpiresAt(cached) - SESSION_EXPIRY_MARGIN_SECONDS
+  ) {
+    return cached;
+  }
+
+  const { publicKey, privateKey } = fhevm.generateKeypair();
+  const eip712 = fhevm.createEIP712(
+    publicKey,
+    [contractAddress],
+    now,
+    durationDays,
+  );
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    {
+      UserDecryptRequestVerification:
+        eip712.types.UserDecryptRequestVerification,
+    },
+    eip712.message,
+  );
+
+  const session: DecryptionSession = {
+    publicKey,
+    privateKey,
+    signature,
+    userAddress,
+    contractAddress,
+    chainId,
+    startTimestamp: now,
+    durationDays,
+  };
+  store.set(key, session);
+  return session;
+}
+
+// Re-encrypts `handle` under the session keypair through the relayer and decrypts it locally.
+export async function userDecryptUint(
+  fhevm: FhevmClient,
+  session: DecryptionSession,
+  handle: string,
+): Promise<bigint> {
+  if (BigInt(handle) === 0n) return 0n;
+
+  const results = await fhevm.userDecrypt(
+    [{ handle, contractAddress: session.contractAddress }],
+    session.privateKey,
+    session.publicKey,
+    session.signature.replace(/^0x/, ""),
+    [session.contractAddress],
+    session.userAddress,
+    session.startTimestamp,
+    session.durationDays,
+  );
+  const value = results[handle];
+  if (value === undefined)
+    throw new Error("Relayer returned no value for the requested handle");
+  return BigInt(value);
+}
@@ -0,0 +1,226 @@
+import { Interface } from "ethers";
+
+import { GiftCardFHE__factory } from "../types/factories/contracts/Gift_Card_Fhe.sol/GiftCardFHE__factory";
+
+export type GiftCardErrorName =
+  | "NotOwner"
+  | "NotProvider"
+  | "PausedError"
+  | "CooldownActive"
+  | "InvalidBatchState"
+  | "CardNotFound"
+  | "InvalidAmount"
+  | "ReplayAttempt"
+  | "StateMismatch"
+  | "DecryptionFailed"
+  | "CardExpired"
+  | "InvalidExpiry"
+  | "InvalidHolder";
+
+// Base class for every custom error GiftCardFHE can revert with.
+export class GiftCardError extends Error {
+  readonly errorName: GiftCardErrorName;
+
+  constructor(
+    errorName: GiftCardErrorName,
+    message: string,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = new.target.name;
+    this.errorName = errorName;
+  }
+}
+
+export class NotOwnerError extends GiftCardError {
+  constructor(options?: ErrorOptions) {
+    super(
+      "NotOwner",
+      "Only the contract owner can perform this action",
+      options,
+    );
+  }
+}
+
+export class NotProviderError extends GiftCardError {
+  constructor(options?: ErrorOptions) {
+    super(
+      "NotProvider",
+      "Only an authorized provider can perform this action",
+      options,
+    );
+  }
+}
+
+export class ContractPausedError extends GiftCardError {
+  constructor(options?: ErrorOptions) {
+    super("PausedError", "The contract is paused", options);
+  }
+}
+
+export class CooldownActiveError extends GiftCardError {
+  constructor(options?: ErrorOptions) {
+    super(
+      "CooldownActive",
+      "The sender's cooldown period has not elapsed",
+      options,
+    );
+  }
+}
+
+export class InvalidBatchStateError extends GiftCardError {
+  constructor(options?: ErrorOptions) {
+    super(
+      "InvalidBatchState",
+      "The batch is not in the required open/closed state",
+      options,
+    );
+  }
+}
+
+export class CardNotFoundError extends GiftCardError {
+  constructor(options?: ErrorOptions) {
+    super(
+      "CardNotFound",
+      "The card does not exist, or the token id is already taken",
+      options,
+    );
+  }
+}
+
+export class InvalidAmountError extends GiftCardError {
+  constructor(options?: ErrorOptions) {
+    super("InvalidAmount", "The amount is invalid", options);
+  }
+}
+
+export class ReplayAttemptError extends GiftCardError {
+  constructor(options?: ErrorOptions) {
+    super(
+      "ReplayAttempt",
+      "This decryption request was already answered; its result cannot be delivered a second time",
+      options,
+    );
+  }
+}
+
+export class StateMismatchError extends GiftCardError {
+  constructor(options?: ErrorOptions) {
+    super(
+      "StateMismatch",
+      "The card balance changed (top-up or redemption) after decryption was requested, so the result was discarded; request it again",
+      options,
+    );
+  }
+}
+
+export class DecryptionFailedError extends GiftCardError {
+  constructor(options?: ErrorOptions) {
+    super("DecryptionFailed", "The decryption could not be completed", options);
+  }
+}
+
+export class CardExpiredError extends GiftCardError {
+  constructor(options?: ErrorOptions) {
+    super(
+      "CardExpired",
+      "The card has expired and can no longer be redeemed",
+      options,
+    );
+  }
+}
+
+export class InvalidExpiryError extends GiftCardError {
+  constructor(options?: ErrorOptions) {
+    super("InvalidExpiry", "The expiry date must be in the future", options);
+  }
+}
+
+export class InvalidHolderError extends GiftCardError {
+  constructor(options?: ErrorOptions) {
+    super(
+      "InvalidHolder",
+      "A card must be issued to a holder address",
+      options,
+    );
+  }
+}
+
+const ERROR_CLASSES: Record<
+  GiftCardErrorName,
+  new (options?: ErrorOptions) => GiftCardError
+> = {
+  NotOwner: NotOwnerError,
+  NotProvider: NotProviderError,
+  PausedError: ContractPausedError,
+  CooldownActive: CooldownActiveError,
+  InvalidBatchState: InvalidBatchStateError,
+  CardNotFound: CardNotFoundError,
+  InvalidAmount: InvalidAmountError,
+  ReplayAttempt: ReplayAttemptError,
+  StateMismatch: StateMismatchError,
+  DecryptionFailed: DecryptionFailedError,
+  CardExpired: CardExpiredError,
+  InvalidExpiry: InvalidExpiryError,
+  InvalidHolder: InvalidHolderError,
+};
+
+const giftCardInterface: Interface = GiftCardFHE__factory.createInterface();
+
+// Lets thrown values of unknown shape be inspected field by field.
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+// Finds revert data in an error thrown by ethers. Injected wallets and JSON-RPC
+// providers nest it at different depths, so every known location is checked.
+export function extractRevertData(error: unknown): string | undefined {
+  const seen = new Set<unknown>();
+  const visit = (value: unknown): string | undefined => {
+    if (!isRecord(value) || seen.has(value)) return undefined;
+    seen.add(value);
+    const { data } = value;
+    if (
+      typeof data === "string" &&
+      data.startsWith("0x") &&
+      data.length >= 10
+    ) {
+      return data;
+    }
+    for (const key of ["data", "error", "info", "cause", "revert"]) {
+      const found = visit(value[key]);
+      if (found) return found;
+    }
+    return undefined;
+  };
+  return visit(error);
+}
+
+// Returns the typed GiftCardError for `error`, or undefined if it is not a GiftCardFHE custom error.
+export function decodeGiftCardError(error: unknown): GiftCardError | undefined {
+  if (error instanceof GiftCardError) return error;
+
+  const revert = isRecord(error) ? error.revert : undefined;
+  const revertName = isRecord(revert) ? revert.name : undefined;
+  if (typeof revertName === "string" && revertName in ERROR_CLASSES) {
+    return new ERROR_CLASSES[revertName as GiftCardErrorName]({ cause: error });
+  }
+
+  const data = extractRevertData(error);
+  if (!data) return undefined;
+  try {
+    const parsed = giftCardInterface.parseError(data);
+    if (parsed && parsed.name in ERROR_CLASSES) {
+      return new ERROR_CLASSES[parsed.name as GiftCardErrorName]({
+        cause: error,
+      });
+    }
+  } catch {
+    // Not a GiftCardFHE error selector.
+  }
+  return undefined;
+}
+
+// Maps `error` to a typed GiftCardError when it carries a GiftCardFHE custom error, so callers can rethrow it.
+export function toGiftCardError(error: unknown): unknown {
+  return decodeGiftCardError(error) ?? error;
+}
@@ -0,0 +1,91 @@
+import { Interface, Log } from "ethers";
+
+import { GiftCardFHE__factory } from "../types/factories/contracts/Gift_Card_Fhe.sol/GiftCardFHE__factory";
+
+export interface EventMeta {
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export type GiftCardEventPayload =
+  | { name: "OwnershipTransferred"; previousOwner: string; newOwner: string }
+  | { name: "ProviderAdded"; provider: string }
+  | { name: "ProviderRemoved"; provider: string }
+  | { name: "Paused"; account: string }
+  | { name: "Unpaused"; account: string }
+  | {
+      name: "CooldownSecondsSet";
+      oldCooldownSeconds: bigint;
+      newCooldownSeconds: bigint;
+    }
+  | { name: "BatchOpened"; batchId: bigint }
+  | { name: "BatchClosed"; batchId: bigint }
+  | {
+      name: "DefaultValidityPeriodSet";
+      provider: string;
+      oldValidityPeriod: bigint;
+      newValidityPeriod: bigint;
+    }
+  | {
+      name: "CardIssued";
+      tokenId: bigint;
+      // May user-decrypt the balance alongside the issuing provider.
+      holder: string;
+      batchId: bigint;
+      expiresAt: bigint;
+    }
+  | { name: "CardToppedUp"; tokenId: bigint; batchId: bigint }
+  | {
+      name: "CardRedeemed";
+      tokenId: bigint;
+      batchId: bigint;
+      encryptedAmountToRedeem: bigint;
+      // Handle of an encrypted bool: false when the amount exceeded the balance and nothing was debited.
+      encryptedApproved: bigint;
+    }
+  | { name: "DecryptionRequested"; requestId: bigint; batchId: bigint }
+  | {
+      name: "DecryptionCompleted";
+      requestId: bigint;
+      batchId: bigint;
+      decryptedBalance: bigint;
+    };
+
+export type GiftCardEvent = GiftCardEventPayload & EventMeta;
+
+export type GiftCardEventName = GiftCardEvent["name"];
+
+export const CARD_EVENT_NAMES: GiftCardEventName[] = [
+  "CardIssued",
+  "CardToppedUp",
+  "CardRedeemed",
+];
+
+const giftCardInterface: Interface = GiftCardFHE__factory.createInterface();
+
+// Decodes a raw GiftCardFHE log into a typed event, or returns null for foreign logs.
+export function decodeGiftCardEvent(log: Log): GiftCardEvent | null {
+  let parsed;
+  try {
+    parsed = giftCardInterface.parseLog({
+      topics: [...log.topics],
+      data: log.data,
+    });
+  } catch {
+    return null;
+  }
+  if (!parsed) return null;
+
+  const payload: Record<string, unknown> = { name: parsed.name };
+  parsed.fragment.inputs.forEach((input, i) => {
+    payload[input.name] = parsed.args[i];
+  });
+
+  return {
+    ...(payload as GiftCardEventPayload),
+    blockNumber: log.blockNumber,
+    transactionHash: log.transactionHash,
+    logIndex: log.index,
+  };
+}
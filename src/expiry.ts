@@ -0,0 +1,53 @@
+// Card expiry as GiftCardFHE stores it: a unix timestamp in seconds, where 0
+// means the card never expires. These helpers mirror the contract's isExpired
+// so the SDK and UI agree with what redeemFromCard will enforce.
+export const NO_EXPIRY = 0;
+
+export const SECONDS_PER_DAY = 86400;
+
+// Cards within this many days of expiry are reported as "expiring".
+export const EXPIRING_SOON_DAYS = 30;
+
+export type ExpiryState = "none" | "valid" | "expiring" | "expired";
+
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+export function isExpired(
+  expiresAt: number,
+  now: number = nowSeconds(),
+): boolean {
+  return expiresAt !== NO_EXPIRY && now >= expiresAt;
+}
+
+// Whole days left, rounded up so a card expiring later today shows 1; 0 once
+// expired and null for cards without an expiry.
+export function daysRemaining(
+  expiresAt: number,
+  now: number = nowSeconds(),
+): number | null {
+  if (expiresAt === NO_EXPIRY) return null;
+  return Math.max(0, Math.ceil((expiresAt - now) / SECONDS_PER_DAY));
+}
+
+export function expiryState(
+  expiresAt: number,
+  now: number = nowSeconds(),
+  soonDays: number = EXPIRING_SOON_DAYS,
+): ExpiryState {
+  if (expiresAt === NO_EXPIRY) return "none";
+  if (isExpired(expiresAt, now)) return "expired";
+  return expiresAt - now <= soonDays * SECONDS_PER_DAY ? "expiring" : "valid";
+}
+
+// The expiry issueCard will store: an explicit expiresAt wins, otherwise the
+// issuer's default validity period counted from issuance (0 = no expiry).
+export function resolveExpiresAt(
+  issuedAt: number,
+  defaultValidityPeriod: number,
+  expiresAt: number = NO_EXPIRY,
+): number {
+  if (expiresAt !== NO_EXPIRY) return expiresAt;
+  return defaultValidityPeriod === 0
+    ? NO_EXPIRY
+    : issuedAt + defaultValidityPeriod;
+}
@@ -0,0 +1,293 @@
+import { Interface, isError } from "ethers";
+
+import { GiftCardFHE__factory } from "../types/factories/contracts/Gift_Card_Fhe.sol/GiftCardFHE__factory";
+import { OperationCancelledError } from "./cooldown";
+import { AmountError } from "./currency";
+import { DecryptionTimeoutError } from "./decryption";
+import {
+  GiftCardErrorName,
+  decodeGiftCardError,
+  extractRevertData,
+  isRecord,
+} from "./errors";
+import { TransactionCancelledError } from "./preflight";
+
+// "contract" is a GiftCardFHE custom error, "revert" a require/revert string
+// or panic. The rest never reached the contract: the user declined in the
+// wallet, the account cannot pay gas, the nonce was stale, or the RPC failed.
+export type FailureKind =
+  | "contract"
+  | "revert"
+  | "rejected"
+  | "insufficient-funds"
+  | "nonce"
+  | "network"
+  | "invalid-input"
+  | "unknown";
+
+export interface FailureReason {
+  kind: FailureKind;
+  // Set when kind is "contract".
+  errorName?: GiftCardErrorName;
+  message: string;
+  // What the user can do about it; empty when there is nothing useful to suggest.
+  retryHint: string;
+  // True when sending the same operation again later can succeed unchanged.
+  retryable: boolean;
+}
+
+const CONTRACT_HINTS: Record<
+  GiftCardErrorName,
+  { retryHint: string; retryable: boolean }
+> = {
+  NotOwner: {
+    retryHint: "Connect the owner wallet to do this.",
+    retryable: false,
+  },
+  NotProvider: {
+    retryHint: "Ask the contract owner to add this wallet as a provider.",
+    retryable: false,
+  },
+  PausedError: {
+    retryHint: "Try again once the owner unpauses the contract.",
+    retryable: true,
+  },
+  CooldownActive: {
+    retryHint:
+      "Wait for the cooldown to end; queued operations are sent automatically.",
+    retryable: true,
+  },
+  InvalidBatchState: {
+    retryHint:
+      "Open a batch before issuing, topping up or redeeming, then try again.",
+    retryable: true,
+  },
+  CardNotFound: {
+    retryHint:
+      "Check the token ID; when issuing, try again to get a new token ID.",
+    retryable: false,
+  },
+  InvalidAmount: { retryHint: "Enter a different amount.", retryable: false },
+  ReplayAttempt: {
+    retryHint: "Nothing to do: the balance was already published.",
+    retryable: false,
+  },
+  StateMismatch: {
+    retryHint: "Request the decryption again.",
+    retryable: false,
+  },
+  DecryptionFailed: {
+    retryHint: "Request the decryption again later.",
+    retryable: true,
+  },
+  CardExpired: {
+    retryHint: "Expired cards cannot be used; issue a new card instead.",
+    retryable: false,
+  },
+  InvalidExpiry: {
+    retryHint: "Choose an expiry date in the future.",
+    retryable: false,
+  },
+  InvalidHolder: {
+    retryHint: "Enter the card holder's wallet address.",
+    retryable: false,
+  },
+};
+
+// The string reverts GiftCardFHE can produce, keyed by their exact reason.
+const STRING_REVERTS: Record<string, { message: string; retryHint: string }> = {
+  "FHE value must be initialized.": {
+    message: "The card does not exist",
+    retryHint: "Check the token ID.",
+  },
+  "FHE value not initialized. Use FHE.asEuint32 to initialize.": {
+    message: "The encrypted amount was not accepted by the contract",
+    retryHint:
+      "Encrypt the amount again with the connected wallet and resubmit.",
+  },
+};
+
+const giftCardInterface: Interface = GiftCardFHE__factory.createInterface();
+
+// The reason of an Error(string) revert, or "Panic(0x..)" for a panic.
+export function decodeRevertReason(error: unknown): string | undefined {
+  const reason = isRecord(error) ? error.reason : undefined;
+  if (typeof reason === "string" && reason) return reason;
+  const data = extractRevertData(error);
+  if (!data) return undefined;
+  try {
+    const parsed = giftCardInterface.parseError(data);
+    if (parsed?.name === "Error") return String(parsed.args[0]);
+    if (parsed?.name === "Panic")
+      return `Panic(0x${parsed.args[0].toString(16)})`;
+  } catch {
+    // Not a standard revert encoding.
+  }
+  return undefined;
+}
+
+// Wallets wrap the node's message at different depths; this collects all of them.
+function collectMessages(error: unknown): string {
+  const messages: string[] = [];
+  const seen = new Set<unknown>();
+  const visit = (value: unknown) => {
+    if (!isRecord(value) || seen.has(value)) return;
+    seen.add(value);
+    if (typeof value.message === "string") messages.push(value.message);
+    for (const key of ["error", "info", "cause", "data"]) visit(value[key]);
+  };
+  visit(error);
+  return messages.join(" | ");
+}
+
+const messageOf = (error: unknown) =>
+  error instanceof Error && error.message ? error.message : "Unknown error";
+
+export function describeFailure(error: unknown): FailureReason {
+  const contractError = decodeGiftCardError(error);
+  if (contractError) {
+    return {
+      kind: "contract",
+      errorName: contractError.errorName,
+      message: contractError.message,
+      ...CONTRACT_HINTS[contractError.errorName],
+    };
+  }
+
+  // SDK errors first: their messages could otherwise match the patterns below.
+  if (error instanceof AmountError) {
+    return {
+      kind: "invalid-input",
+      message: error.message,
+      retryHint: "",
+      retryable: false,
+    };
+  }
+  if (
+    error instanceof OperationCancelledError ||
+    error instanceof TransactionCancelledError
+  ) {
+    return {
+      kind: "rejected",
+      message: error.message,
+      retryHint: "",
+      retryable: true,
+    };
+  }
+  if (error instanceof DecryptionTimeoutError) {
+    return {
+      kind: "network",
+      message: error.message,
+      // The message already says the answer may still arrive.
+      retryHint: "",
+      retryable: true,
+    };
+  }
+
+  const text = collectMessages(error);
+
+  if (
+    isError(error, "ACTION_REJECTED") ||
+    (isRecord(error) && error.code === 4001) ||
+    /user (rejected|denied)/i.test(text)
+  ) {
+    return {
+      kind: "rejected",
+      message: "The request was rejected in the wallet",
+      retryHint: "Approve the request in your wallet to continue.",
+      retryable: true,
+    };
+  }
+
+  if (
+    isError(error, "INSUFFICIENT_FUNDS") ||
+    /insufficient funds/i.test(text)
+  ) {
+    return {
+      kind: "insufficient-funds",
+      message: "The wallet does not have enough ETH to pay for gas",
+      retryHint: "Fund the wallet and try again.",
+      retryable: true,
+    };
+  }
+
+  if (isError(error, "TRANSACTION_REPLACED")) {
+    const cancelled = error.cancelled && error.reason === "cancelled";
+    return {
+      kind: cancelled ? "rejected" : "nonce",
+      message: cancelled
+        ? "The transaction was cancelled from the wallet"
+        : error.reason === "repriced"
+          ? "The sped-up transaction was mined but failed"
+          : "The transaction was replaced by another one sent from this wallet",
+      retryHint: "Check the transaction list, then send it again if needed.",
+      retryable: true,
+    };
+  }
+
+  if (
+    isError(error, "NONCE_EXPIRED") ||
+    isError(error, "REPLACEMENT_UNDERPRICED") ||
+    /nonce (too low|too high|has already been used)|replacement (transaction )?underpriced/i.test(
+      text,
+    )
+  ) {
+    return {
+      kind: "nonce",
+      message:
+        "The transaction conflicts with another one sent from this wallet",
+      retryHint:
+        "Wait for pending transactions to confirm, or reset the wallet's nonce, then try again.",
+      retryable: true,
+    };
+  }
+
+  if (isError(error, "CALL_EXCEPTION")) {
+    const reason = decodeRevertReason(error);
+    const known = reason ? STRING_REVERTS[reason] : undefined;
+    return {
+      kind: "revert",
+      message:
+        known?.message ??
+        (reason
+          ? `The contract rejected the transaction: ${reason}`
+          : "The contract rejected the transaction"),
+      retryHint:
+        known?.retryHint ??
+        "Check the card, amount and batch state before trying again.",
+      retryable: false,
+    };
+  }
+
+  if (
+    isError(error, "NETWORK_ERROR") ||
+    isError(error, "SERVER_ERROR") ||
+    isError(error, "TIMEOUT") ||
+    /failed to fetch|network|timeout|timed out|rate limit|too many requests|\b429\b|\b50[234]\b/i.test(
+      text,
+    )
+  ) {
+    return {
+      kind: "network",
+      message: `The network request failed: ${messageOf(error)}`,
+      retryHint: "Check your connection and try again in a moment.",
+      retryable: true,
+    };
+  }
+
+  return {
+    kind: "unknown",
+    message: messageOf(error),
+    retryHint: "",
+    retryable: false,
+  };
+}
+
+// One line for toasts and status banners: the reason followed by its retry hint.
+// Node and wallet messages often end in punctuation already, which is dropped
+// so the joined sentence does not read "failed.. Try again".
+export function formatFailure(error: unknown): string {
+  const { message, retryHint } = describeFailure(error);
+  if (!retryHint) return message;
+  return `${message.replace(/[\s.!?:;,]+$/, "")}. ${retryHint}`;
+}
@@ -0,0 +1,14 @@
+export * from "./GiftCardClient";
+export * from "./cooldown";
+export * from "./currency";
+export * from "./decryption";
+export * from "./encryption";
+export * from "./errors";
+export * from "./events";
+export * from "./expiry";
+export * from "./failures";
+export * from "./networks";
+export * from "./preflight";
+export * from "./roles";
+export * from "./rpc";
+export * from "./transactions";
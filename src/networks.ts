@@ -0,0 +1,227 @@
+import { isAddress } from "ethers";
+
+import { CurrencyConfig, assertCurrencyConfig } from "./currency";
+
+// Host-chain and gateway addresses the relayer SDK needs to encrypt inputs and
+// decrypt balances; field names match the SDK's FhevmInstanceConfig.
+export interface FheNetworkConfig {
+  relayerUrl: string;
+  gatewayChainId: number;
+  aclContractAddress: string;
+  kmsContractAddress: string;
+  inputVerifierContractAddress: string;
+  verifyingContractAddressDecryption: string;
+  verifyingContractAddressInputVerification: string;
+}
+
+export interface ContractDeployment {
+  address: string;
+  // First block worth scanning for the contract's events.
+  deployBlock: number;
+}
+
+export interface GiftCardDeployment extends ContractDeployment {
+  currency: CurrencyConfig;
+}
+
+export interface NetworkConfig {
+  chainId: number;
+  name: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  rpcUrls: string[];
+  // Base URL such as "https://sepolia.etherscan.io"; local chains have none.
+  explorerUrl?: string;
+  contracts: {
+    giftCard: GiftCardDeployment;
+    // The pre-GiftCardFHE key-value store, only where cards need migrating.
+    legacyAdapter?: ContractDeployment;
+  };
+  // Without it, encrypted writes and user decryption are unavailable on this network.
+  fhe?: FheNetworkConfig;
+}
+
+// Networks keyed by their decimal chainId, as in networks.json.
+export interface NetworkRegistry {
+  defaultChainId: number;
+  networks: Record<number, NetworkConfig>;
+}
+
+export class NetworkConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NetworkConfigError";
+  }
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+function fail(path: string, expected: string, value: unknown): never {
+  throw new NetworkConfigError(
+    `${path} must be ${expected}, got ${JSON.stringify(value)}`,
+  );
+}
+
+function object(value: unknown, path: string): Json {
+  return isObject(value) ? value : fail(path, "an object", value);
+}
+
+function string(value: unknown, path: string): string {
+  return typeof value === "string" && value.trim() !== ""
+    ? value
+    : fail(path, "a non-empty string", value);
+}
+
+function integer(value: unknown, path: string, min = 0): number {
+  return Number.isSafeInteger(value) && (value as number) >= min
+    ? (value as number)
+    : fail(path, `an integer of at least ${min}`, value);
+}
+
+function address(value: unknown, path: string): string {
+  return typeof value === "string" && isAddress(value)
+    ? value
+    : fail(path, "an address", value);
+}
+
+function url(value: unknown, path: string): string {
+  try {
+    const parsed = new URL(string(value, path));
+    if (parsed.protocol === "http:" || parsed.protocol === "https:") {
+      return parsed.toString().replace(/\/$/, "");
+    }
+  } catch {
+    // Reported below.
+  }
+  return fail(path, "an http(s) URL", value);
+}
+
+function deployment(value: unknown, path: string): ContractDeployment {
+  const json = object(value, path);
+  return {
+    address: address(json.address, `${path}.address`),
+    deployBlock: integer(json.deployBlock, `${path}.deployBlock`),
+  };
+}
+
+function fheConfig(value: unknown, path: string): FheNetworkConfig {
+  const json = object(value, path);
+  return {
+    relayerUrl: url(json.relayerUrl, `${path}.relayerUrl`),
+    gatewayChainId: integer(json.gatewayChainId, `${path}.gatewayChainId`, 1),
+    aclContractAddress: address(
+      json.aclContractAddress,
+      `${path}.aclContractAddress`,
+    ),
+    kmsContractAddress: address(
+      json.kmsContractAddress,
+      `${path}.kmsContractAddress`,
+    ),
+    inputVerifierContractAddress: address(
+      json.inputVerifierContractAddress,
+      `${path}.inputVerifierContractAddress`,
+    ),
+    verifyingContractAddressDecryption: address(
+      json.verifyingContractAddressDecryption,
+      `${path}.verifyingContractAddressDecryption`,
+    ),
+    verifyingContractAddressInputVerification: address(
+      json.verifyingContractAddressInputVerification,
+      `${path}.verifyingContractAddressInputVerification`,
+    ),
+  };
+}
+
+function networkConfig(value: unknown, path: string): NetworkConfig {
+  const json = object(value, path);
+  const nativeCurrency = object(json.nativeCurrency, `${path}.nativeCurrency`);
+  const contracts = object(json.contracts, `${path}.contracts`);
+  const giftCard = object(contracts.giftCard, `${path}.contracts.giftCard`);
+  const currency = object(
+    giftCard.currency,
+    `${path}.contracts.giftCard.currency`,
+  );
+  if (!Array.isArray(json.rpcUrls) || json.rpcUrls.length === 0) {
+    fail(`${path}.rpcUrls`, "a non-empty array", json.rpcUrls);
+  }
+  return {
+    chainId: integer(json.chainId, `${path}.chainId`, 1),
+    name: string(json.name, `${path}.name`),
+    nativeCurrency: {
+      name: string(nativeCurrency.name, `${path}.nativeCurrency.name`),
+      symbol: string(nativeCurrency.symbol, `${path}.nativeCurrency.symbol`),
+      decimals: integer(
+        nativeCurrency.decimals,
+        `${path}.nativeCurrency.decimals`,
+      ),
+    },
+    rpcUrls: json.rpcUrls.map((u, i) => url(u, `${path}.rpcUrls[${i}]`)),
+    explorerUrl:
+      json.explorerUrl === undefined
+        ? undefined
+        : url(json.explorerUrl, `${path}.explorerUrl`),
+    contracts: {
+      giftCard: {
+        ...deployment(giftCard, `${path}.contracts.giftCard`),
+        currency: assertCurrencyConfig({
+          code: string(
+            currency.code,
+            `${path}.contracts.giftCard.currency.code`,
+          ),
+          decimals: integer(
+            currency.decimals,
+            `${path}.contracts.giftCard.currency.decimals`,
+          ),
+        }),
+      },
+      legacyAdapter:
+        contracts.legacyAdapter === undefined
+          ? undefined
+          : deployment(
+              contracts.legacyAdapter,
+              `${path}.contracts.legacyAdapter`,
+            ),
+    },
+    fhe:
+      json.fhe === undefined ? undefined : fheConfig(json.fhe, `${path}.fhe`),
+  };
+}
+
+// Validates a parsed networks.json and returns it with URLs normalized. Every
+// network must sit under the key of its own chainId, and the default must exist.
+export function assertNetworkRegistry(value: unknown): NetworkRegistry {
+  const json = object(value, "networks.json");
+  const entries = object(json.networks, "networks");
+  const networks: Record<number, NetworkConfig> = {};
+  for (const [key, entry] of Object.entries(entries)) {
+    const network = networkConfig(entry, `networks.${key}`);
+    if (String(network.chainId) !== key) {
+      throw new NetworkConfigError(
+        `networks.${key} is keyed by ${key} but has chainId ${network.chainId}`,
+      );
+    }
+    networks[network.chainId] = network;
+  }
+  const defaultChainId = integer(json.defaultChainId, "defaultChainId", 1);
+  if (!networks[defaultChainId]) {
+    throw new NetworkConfigError(
+      `defaultChainId ${defaultChainId} is not one of the configured networks`,
+    );
+  }
+  return { defaultChainId, networks };
+}
+
+export function findNetwork(
+  registry: NetworkRegistry,
+  chainId: number | bigint,
+): NetworkConfig | undefined {
+  return registry.networks[Number(chainId)];
+}
+
+export const explorerTransactionUrl = (
+  network: NetworkConfig,
+  hash: string,
+): string | undefined =>
+  network.explorerUrl ? `${network.explorerUrl}/tx/${hash}` : undefined;
@@ -0,0 +1,26 @@
+// Every write is simulated with staticCall and estimated before the wallet is
+// asked to sign, so a call that would revert fails with its decoded reason
+// instead of after a signature prompt.
+export interface TransactionPreview {
+  // Contract function name, e.g. "issueCard".
+  method: string;
+  contractAddress: string;
+  from: string;
+  gasLimit: bigint;
+  // maxFeePerGas on EIP-1559 networks, gasPrice otherwise; both in wei.
+  feePerGas: bigint;
+  // gasLimit * feePerGas: an upper bound, the actual fee is usually lower.
+  estimatedFee: bigint;
+}
+
+// Resolves to true to send the transaction, false to abandon it.
+export type ConfirmTransaction = (
+  preview: TransactionPreview,
+) => Promise<boolean>;
+
+export class TransactionCancelledError extends Error {
+  constructor(method: string) {
+    super(`${method} was cancelled before signing`);
+    this.name = "TransactionCancelledError";
+  }
+}
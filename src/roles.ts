@@ -0,0 +1,116 @@
+import type { GiftCardClient } from "./GiftCardClient";
+import type { GiftCardEventName } from "./events";
+
+// "owner" can call the onlyOwner functions, "provider" the onlyProvider ones;
+// a "customer" can only read. The owner is usually also a provider but can be
+// removed as one, so check isProvider rather than role for provider actions.
+export type Role = "owner" | "provider" | "customer";
+
+export interface AccountRoles {
+  account: string;
+  role: Role;
+  isOwner: boolean;
+  isProvider: boolean;
+}
+
+// Events after which cached roles may be wrong.
+export const ROLE_EVENT_NAMES: GiftCardEventName[] = [
+  "ProviderAdded",
+  "ProviderRemoved",
+  "OwnershipTransferred",
+];
+
+const normalize = (account: string) => account.toLowerCase();
+
+// Caches owner() and providers(account) so every component can ask for roles
+// without its own RPC calls. Feed it role events through applyEvent; listeners
+// are told whenever cached roles are dropped and should be read again.
+export class RoleService {
+  private owner?: Promise<string>;
+  private readonly providers = new Map<string, Promise<boolean>>();
+  private readonly listeners = new Set<() => void>();
+
+  constructor(
+    private readonly client: Pick<GiftCardClient, "owner" | "isProvider">,
+  ) {}
+
+  async getRoles(account: string): Promise<AccountRoles> {
+    const [owner, isProvider] = await Promise.all([
+      this.getOwner(),
+      this.getIsProvider(account),
+    ]);
+    const isOwner = normalize(owner) === normalize(account);
+    return {
+      account,
+      role: isOwner ? "owner" : isProvider ? "provider" : "customer",
+      isOwner,
+      isProvider,
+    };
+  }
+
+  // ProviderAdded/ProviderRemoved only affect `provider`; OwnershipTransferred affects every account.
+  applyEvent(name: GiftCardEventName, provider?: string): void {
+    this.applyEvents([{ name, provider }]);
+  }
+
+  // Drops what a batch of events made stale and notifies listeners once, so
+  // a burst of role changes costs a single re-read.
+  applyEvents(events: { name: GiftCardEventName; provider?: string }[]): void {
+    let changed = false;
+    for (const { name, provider } of events) {
+      if (name === "OwnershipTransferred") {
+        this.owner = undefined;
+      } else if (
+        (name === "ProviderAdded" || name === "ProviderRemoved") &&
+        provider
+      ) {
+        this.providers.delete(normalize(provider));
+      } else {
+        continue;
+      }
+      changed = true;
+    }
+    if (changed) this.notify();
+  }
+
+  invalidate(): void {
+    this.owner = undefined;
+    this.providers.clear();
+    this.notify();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private getOwner(): Promise<string> {
+    if (!this.owner) {
+      const owner = this.client.owner();
+      // Failed reads are not cached, so the next call retries.
+      owner.catch(() => {
+        if (this.owner === owner) this.owner = undefined;
+      });
+      this.owner = owner;
+    }
+    return this.owner;
+  }
+
+  private getIsProvider(account: string): Promise<boolean> {
+    const key = normalize(account);
+    let isProvider = this.providers.get(key);
+    if (!isProvider) {
+      const pending = this.client.isProvider(account);
+      pending.catch(() => {
+        if (this.providers.get(key) === pending) this.providers.delete(key);
+      });
+      this.providers.set(key, pending);
+      isProvider = pending;
+    }
+    return isProvider;
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,228 @@
+import {
+  JsonRpcApiProvider,
+  JsonRpcError,
+  JsonRpcPayload,
+  JsonRpcProvider,
+  JsonRpcResult,
+  Network,
+  Networkish,
+} from "ethers";
+
+export const DEFAULT_RPC_TIMEOUT_MS = 10000;
+// How long an endpoint that just failed is ranked behind every healthy one.
+export const DEFAULT_RPC_COOLDOWN_MS = 30000;
+// Weight of the newest sample in the moving latency average.
+const LATENCY_WEIGHT = 0.3;
+
+export interface RpcPoolOptions {
+  // Tried before any other healthy endpoint regardless of latency, e.g. a
+  // local hardhat node during development.
+  preferredUrls?: string[];
+  timeoutMs?: number;
+  cooldownMs?: number;
+}
+
+export interface RpcEndpointHealth {
+  url: string;
+  preferred: boolean;
+  // Moving average over successful requests; 0 until the first one.
+  latencyMs: number;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastFailureAt?: number;
+  lastError?: string;
+  // False once the endpoint reported a different chain; it is never used again.
+  chainMatches?: boolean;
+}
+
+interface Endpoint {
+  health: RpcEndpointHealth;
+  provider: JsonRpcProvider;
+}
+
+export class RpcUnavailableError extends Error {
+  constructor(cause?: unknown) {
+    super(
+      `No RPC endpoint answered${cause instanceof Error ? `: ${cause.message}` : ""}`,
+    );
+    this.name = "RpcUnavailableError";
+  }
+}
+
+const isJsonRpcError = (
+  response: JsonRpcResult | JsonRpcError,
+): response is JsonRpcError => "error" in response;
+
+const isThrottled = (error: JsonRpcError["error"]) =>
+  error.code === 429 ||
+  error.code === -32005 ||
+  /rate limit|too many requests|capacity exceeded/i.test(error.message ?? "");
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`RPC timeout after ${timeoutMs} ms`)),
+      timeoutMs,
+    );
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+// A set of interchangeable endpoints for one chain. Each request goes to the
+// best-ranked endpoint and, if it times out, fails at the transport level or
+// is throttled, to the next one; JSON-RPC errors such as reverts are answers
+// and are returned as they are.
+export class RpcPool {
+  readonly network: Network;
+  private readonly endpoints: Endpoint[];
+  private readonly timeoutMs: number;
+  private readonly cooldownMs: number;
+
+  constructor(
+    urls: string[],
+    network: Networkish,
+    options: RpcPoolOptions = {},
+  ) {
+    this.network = Network.from(network);
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_RPC_TIMEOUT_MS;
+    this.cooldownMs = options.cooldownMs ?? DEFAULT_RPC_COOLDOWN_MS;
+    const preferred = options.preferredUrls ?? [];
+    const unique = [...new Set([...preferred, ...urls])];
+    if (unique.length === 0) throw new Error("RpcPool needs at least one URL");
+    this.endpoints = unique.map((url) => ({
+      health: {
+        url,
+        preferred: preferred.includes(url),
+        latencyMs: 0,
+        requests: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+      },
+      provider: new JsonRpcProvider(url, this.network, {
+        staticNetwork: this.network,
+        batchMaxCount: 1,
+      }),
+    }));
+  }
+
+  // Best first: endpoints not cooling down, preferred ones first, then by
+  // latency; endpoints still cooling down follow, least recently failed first.
+  health(): RpcEndpointHealth[] {
+    return this.ranked().map((endpoint) => ({ ...endpoint.health }));
+  }
+
+  async send(
+    payload: JsonRpcPayload | JsonRpcPayload[],
+  ): Promise<Array<JsonRpcResult | JsonRpcError>> {
+    let lastError: unknown;
+    for (const endpoint of this.ranked()) {
+      const started = Date.now();
+      try {
+        await this.verifyChain(endpoint);
+        // Typed as results only, but JSON-RPC errors come back in the same array.
+        const results: Array<JsonRpcResult | JsonRpcError> = await withTimeout(
+          endpoint.provider._send(payload),
+          this.timeoutMs,
+        );
+        const throttled = results.find(
+          (r): r is JsonRpcError => isJsonRpcError(r) && isThrottled(r.error),
+        );
+        if (throttled) throw new Error(throttled.error.message);
+        this.recordSuccess(endpoint, Date.now() - started);
+        return results;
+      } catch (error) {
+        this.recordFailure(endpoint, error);
+        lastError = error;
+      }
+    }
+    throw new RpcUnavailableError(lastError);
+  }
+
+  private ranked(): Endpoint[] {
+    const now = Date.now();
+    const cooling = (e: Endpoint) =>
+      e.health.lastFailureAt !== undefined &&
+      e.health.consecutiveFailures > 0 &&
+      now - e.health.lastFailureAt < this.cooldownMs;
+    const usable = this.endpoints.filter(
+      (e) => e.health.chainMatches !== false,
+    );
+    const healthy = usable
+      .filter((e) => !cooling(e))
+      .sort(
+        (a, b) =>
+          Number(b.health.preferred) - Number(a.health.preferred) ||
+          a.health.latencyMs - b.health.latencyMs,
+      );
+    const recovering = usable
+      .filter(cooling)
+      .sort((a, b) => a.health.lastFailureAt! - b.health.lastFailureAt!);
+    return [...healthy, ...recovering];
+  }
+
+  // Checked once per endpoint, so a misconfigured URL cannot serve another chain's state.
+  private async verifyChain(endpoint: Endpoint): Promise<void> {
+    if (endpoint.health.chainMatches) return;
+    const [result]: Array<JsonRpcResult | JsonRpcError> = await withTimeout(
+      endpoint.provider._send({
+        method: "eth_chainId",
+        params: [],
+        id: 0,
+        jsonrpc: "2.0",
+      }),
+      this.timeoutMs,
+    );
+    if (isJsonRpcError(result)) throw new Error(result.error.message);
+    if (BigInt(result.result) !== this.network.chainId) {
+      endpoint.health.chainMatches = false;
+      throw new Error(
+        `${endpoint.health.url} is on chain ${BigInt(result.result)}, expected ${this.network.chainId}`,
+      );
+    }
+    endpoint.health.chainMatches = true;
+  }
+
+  private recordSuccess(endpoint: Endpoint, latencyMs: number): void {
+    const health = endpoint.health;
+    health.requests += 1;
+    health.consecutiveFailures = 0;
+    health.latencyMs =
+      health.latencyMs === 0
+        ? latencyMs
+        : Math.round(
+            (1 - LATENCY_WEIGHT) * health.latencyMs +
+              LATENCY_WEIGHT * latencyMs,
+          );
+  }
+
+  private recordFailure(endpoint: Endpoint, error: unknown): void {
+    const health = endpoint.health;
+    health.requests += 1;
+    health.failures += 1;
+    health.consecutiveFailures += 1;
+    health.lastFailureAt = Date.now();
+    health.lastError = error instanceof Error ? error.message : String(error);
+  }
+}
+
+// An ethers provider whose every request is served by an RpcPool, so reads
+// fail over mid-session without the caller noticing. Event listeners poll
+// eth_getLogs: a filter id from eth_newFilter only exists on the node that
+// created it, and the next eth_getFilterChanges may go to another endpoint.
+export class PooledRpcProvider extends JsonRpcApiProvider {
+  constructor(readonly pool: RpcPool) {
+    super(pool.network, {
+      staticNetwork: pool.network,
+      batchMaxCount: 1,
+      polling: true,
+    });
+  }
+
+  _send(
+    payload: JsonRpcPayload | JsonRpcPayload[],
+  ): Promise<Array<JsonRpcResult | JsonRpcError>> {
+    return this.pool.send(payload);
+  }
+}
@@ -0,0 +1,232 @@
+import { Provider, TransactionResponse, ZeroAddress, keccak256 } from "ethers";
+
+// "confirmed"/"failed" come from the receipt of the transaction or of its
+// speed-up; "cancelled" means the wallet replaced it with an empty self-send,
+// "replaced" that some other transaction used its nonce, and "dropped" that it
+// left the mempool without its nonce ever being used.
+export type TransactionState =
+  | "pending"
+  | "confirmed"
+  | "failed"
+  | "cancelled"
+  | "replaced"
+  | "dropped";
+
+export interface TrackedTransaction {
+  hash: string;
+  chainId: number;
+  from: string;
+  to: string;
+  nonce: number;
+  // GiftCardFHE function name, e.g. "issueCard".
+  method: string;
+  // keccak256 of the calldata, enough to recognise a sped-up copy without
+  // storing the encrypted input proof.
+  dataHash: string;
+  submittedAt: number;
+  submittedBlock: number;
+  state: TransactionState;
+  // The transaction that took this one's nonce, when it was sped up, cancelled or replaced.
+  replacementHash?: string;
+  blockNumber?: number;
+}
+
+export interface TransactionStore {
+  load(): TrackedTransaction[];
+  save(transactions: TrackedTransaction[]): void;
+}
+
+export class MemoryTransactionStore implements TransactionStore {
+  private transactions: TrackedTransaction[] = [];
+
+  load(): TrackedTransaction[] {
+    return this.transactions;
+  }
+
+  save(transactions: TrackedTransaction[]): void {
+    this.transactions = transactions;
+  }
+}
+
+// A transaction nobody has seen for this long, whose nonce is still unused, is reported as dropped.
+export const DEFAULT_DROP_TIMEOUT_MS = 30 * 60 * 1000;
+// Finished transactions beyond this many are forgotten, oldest first.
+export const MAX_TRACKED_TRANSACTIONS = 50;
+
+const EMPTY_DATA_HASH = keccak256("0x");
+
+// Records submitted transactions in a store and follows each one until it is
+// mined, replaced or dropped. Works from the stored hash and nonce alone, so
+// tracking resumes after a page reload.
+export class TransactionTracker {
+  private readonly listeners = new Set<
+    (transactions: TrackedTransaction[]) => void
+  >();
+  private checking?: Promise<void>;
+
+  constructor(
+    private readonly provider: Provider,
+    private readonly store: TransactionStore,
+    private readonly dropTimeoutMs: number = DEFAULT_DROP_TIMEOUT_MS,
+  ) {}
+
+  async record(
+    tx: TransactionResponse,
+    method: string,
+  ): Promise<TrackedTransaction> {
+    const entry: TrackedTransaction = {
+      hash: tx.hash,
+      chainId: Number(tx.chainId),
+      from: tx.from,
+      to: tx.to ?? ZeroAddress,
+      nonce: tx.nonce,
+      method,
+      dataHash: keccak256(tx.data),
+      submittedAt: Date.now(),
+      submittedBlock: await this.provider.getBlockNumber(),
+      state: "pending",
+    };
+    this.save([entry, ...this.list().filter((t) => t.hash !== tx.hash)]);
+    return entry;
+  }
+
+  // Newest first.
+  list(): TrackedTransaction[] {
+    return this.store.load();
+  }
+
+  pending(): TrackedTransaction[] {
+    return this.list().filter((t) => t.state === "pending");
+  }
+
+  clearFinished(): void {
+    this.save(this.pending());
+  }
+
+  subscribe(
+    listener: (transactions: TrackedTransaction[]) => void,
+  ): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Checks every pending transaction once; concurrent calls share the same pass.
+  check(): Promise<void> {
+    if (!this.checking) {
+      this.checking = this.checkPending().finally(() => {
+        this.checking = undefined;
+      });
+    }
+    return this.checking;
+  }
+
+  private async checkPending(): Promise<void> {
+    for (const entry of this.pending()) {
+      const next = await this.checkOne(entry);
+      if (next.state !== entry.state) {
+        this.save(this.list().map((t) => (t.hash === next.hash ? next : t)));
+      }
+    }
+  }
+
+  private async checkOne(
+    entry: TrackedTransaction,
+  ): Promise<TrackedTransaction> {
+    const receipt = await this.provider.getTransactionReceipt(entry.hash);
+    if (receipt) {
+      return {
+        ...entry,
+        state: receipt.status === 1 ? "confirmed" : "failed",
+        blockNumber: receipt.blockNumber,
+      };
+    }
+
+    const usedNonces = await this.provider.getTransactionCount(
+      entry.from,
+      "latest",
+    );
+    if (usedNonces > entry.nonce) {
+      // The nonce is taken. Either this transaction was mined between the two
+      // calls, or another one (speed-up, cancel, unrelated) took its place.
+      const minedReceipt = await this.provider.getTransactionReceipt(
+        entry.hash,
+      );
+      if (minedReceipt) return this.checkOne(entry);
+      return this.resolveReplacement(entry);
+    }
+
+    const pending = await this.provider.getTransaction(entry.hash);
+    if (!pending && Date.now() - entry.submittedAt > this.dropTimeoutMs) {
+      return { ...entry, state: "dropped" };
+    }
+    return entry;
+  }
+
+  private async resolveReplacement(
+    entry: TrackedTransaction,
+  ): Promise<TrackedTransaction> {
+    const replacement = await this.findReplacement(entry);
+    if (!replacement) return { ...entry, state: "replaced" };
+
+    const replacementReceipt = await this.provider.getTransactionReceipt(
+      replacement.hash,
+    );
+    const dataHash = keccak256(replacement.data);
+    const base = {
+      ...entry,
+      replacementHash: replacement.hash,
+      blockNumber: replacement.blockNumber ?? undefined,
+    };
+    if (dataHash === entry.dataHash && replacement.to === entry.to) {
+      // Sped up: same call with a higher fee, so its outcome is this transaction's outcome.
+      return {
+        ...base,
+        state: replacementReceipt?.status === 1 ? "confirmed" : "failed",
+      };
+    }
+    if (dataHash === EMPTY_DATA_HASH && replacement.to === entry.from) {
+      return { ...base, state: "cancelled" };
+    }
+    return { ...base, state: "replaced" };
+  }
+
+  // Binary-searches the block where the sender's nonce moved past entry.nonce,
+  // then picks the transaction with that nonce out of it. Returns null when the
+  // RPC cannot answer historical nonce queries.
+  private async findReplacement(
+    entry: TrackedTransaction,
+  ): Promise<TransactionResponse | null> {
+    try {
+      let low = entry.submittedBlock;
+      let high = await this.provider.getBlockNumber();
+      while (low < high) {
+        const mid = Math.floor((low + high) / 2);
+        const count = await this.provider.getTransactionCount(entry.from, mid);
+        if (count > entry.nonce) high = mid;
+        else low = mid + 1;
+      }
+      const block = await this.provider.getBlock(low, true);
+      return (
+        block?.prefetchedTransactions.find(
+          (tx) =>
+            tx.from.toLowerCase() === entry.from.toLowerCase() &&
+            tx.nonce === entry.nonce,
+        ) ?? null
+      );
+    } catch {
+      return null;
+    }
+  }
+
+  private save(transactions: TrackedTransaction[]): void {
+    const pending = transactions.filter((t) => t.state === "pending");
+    const finished = transactions
+      .filter((t) => t.state !== "pending")
+      .slice(0, Math.max(0, MAX_TRACKED_TRANSACTIONS - pending.length));
+    const kept = transactions.filter(
+      (t) => pending.includes(t) || finished.includes(t),
+    );
+    this.store.save(kept);
+    this.listeners.forEach((listener) => listener(kept));
+  }
+}
@@ -0,0 +1,212 @@
+// tasks/deployments.ts
+import { task } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { keccak256 } from "ethers";
+
+import { LedgerEntry, ledgerPath, readLedger } from "../deploy/ledger";
+import {
+  DeploymentManifest,
+  manifestPath,
+  readManifest,
+} from "../deploy/manifest";
+
+const shortHash = (hash: string) => `${hash.slice(0, 10)}...`;
+
+async function ledgerChainId(hre: HardhatRuntimeEnvironment): Promise<number> {
+  return (
+    hre.network.config.chainId ??
+    Number((await hre.ethers.provider.getNetwork()).chainId)
+  );
+}
+
+function describe(entry: LedgerEntry, index: number): string {
+  const head = `#${index + 1}  ${entry.recordedAt}  ${entry.contractName}`;
+  const by = `by ${entry.deployer} (${entry.signerSource})`;
+  if (entry.status === "failed") {
+    const tx = entry.transactionHash ? ` tx ${entry.transactionHash}` : "";
+    return `${head}  FAILED${tx} ${by}: ${entry.error}`;
+  }
+  return (
+    `${head}  ${entry.address}  block ${entry.blockNumber}  ` +
+    `gas ${entry.gasUsed} @ ${entry.effectiveGasPrice} wei  ${by}`
+  );
+}
+
+// Nested objects such as `compiler` compare field by field.
+function flatten(value: object, prefix = ""): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const [key, field] of Object.entries(value)) {
+    if (field && typeof field === "object") {
+      Object.assign(fields, flatten(field, `${prefix}${key}.`));
+    } else {
+      fields[`${prefix}${key}`] = field;
+    }
+  }
+  return fields;
+}
+
+// Picks a 1-based ledger entry number, or the n-th newest deployment.
+function pick(
+  ledger: LedgerEntry[],
+  number: string | undefined,
+  fromNewest: number,
+): [LedgerEntry, number] {
+  if (number !== undefined) {
+    const index = Number(number) - 1;
+    if (!Number.isSafeInteger(index) || !ledger[index]) {
+      throw new Error(`No ledger entry #${number}; there are ${ledger.length}`);
+    }
+    return [ledger[index], index];
+  }
+  const deployed = ledger
+    .map((entry, index) => [entry, index] as [LedgerEntry, number])
+    .filter(([entry]) => entry.status === "deployed");
+  const picked = deployed[deployed.length - fromNewest];
+  if (!picked) {
+    throw new Error(
+      `Need at least two successful deployments to diff; there are ${deployed.length}`,
+    );
+  }
+  return picked;
+}
+
+function diff(ledger: LedgerEntry[], from?: string, to?: string): void {
+  const [a, aIndex] = pick(ledger, from, 2);
+  const [b, bIndex] = pick(ledger, to, 1);
+  const before = flatten(a);
+  const after = flatten(b);
+  const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  const changed = keys.filter((key) => before[key] !== after[key]);
+
+  console.log(`#${aIndex + 1} -> #${bIndex + 1}`);
+  for (const key of changed) {
+    console.log(`  ${key}: ${before[key] ?? "-"} -> ${after[key] ?? "-"}`);
+  }
+  console.log(`  ${keys.length - changed.length} other field(s) unchanged`);
+}
+
+// Every recorded address must still hold code that hashes to what the ledger
+// recorded for it. The manifest's deployment must also match the compiled
+// artifact, since that is the one the frontend and scripts talk to.
+async function checkCode(
+  hre: HardhatRuntimeEnvironment,
+  deployment: Pick<
+    DeploymentManifest,
+    "contractName" | "address" | "deployedBytecodeHash"
+  >,
+  current: boolean,
+): Promise<string> {
+  const code = await hre.ethers.provider.getCode(deployment.address);
+  if (code === "0x") return "FAIL no code at address";
+  const codeHash = keccak256(code);
+  if (codeHash !== deployment.deployedBytecodeHash) {
+    return `FAIL code hash ${shortHash(codeHash)} does not match the recorded ${shortHash(deployment.deployedBytecodeHash)}`;
+  }
+  if (!current) return "ok";
+  const artifact = await hre.artifacts.readArtifact(deployment.contractName);
+  return codeHash === keccak256(artifact.deployedBytecode)
+    ? "ok"
+    : `FAIL built from an older artifact (code hash ${shortHash(codeHash)})`;
+}
+
+// Checks the code at every deployed ledger address; entries the manifest no
+// longer points at are labelled superseded. Sets a failing exit code when a
+// manifest is missing or any deployment does not verify.
+async function verify(
+  hre: HardhatRuntimeEnvironment,
+  chainId: number,
+  ledger: LedgerEntry[],
+): Promise<void> {
+  const manifests = new Map<string, DeploymentManifest | null>();
+  const manifestFor = (name: string) => {
+    if (!manifests.has(name)) manifests.set(name, readManifest(chainId, name));
+    return manifests.get(name)!;
+  };
+  let failures = 0;
+  const report = (label: string, address: string, result: string) => {
+    if (result.startsWith("FAIL")) failures++;
+    console.log(`${label}  ${address}  ${result}`);
+  };
+
+  for (const [index, entry] of ledger.entries()) {
+    if (entry.status !== "deployed") continue;
+    const manifest = manifestFor(entry.contractName);
+    const current = manifest?.transactionHash === entry.transactionHash;
+    const result = await checkCode(hre, entry, current);
+    report(
+      `#${index + 1}`,
+      entry.address,
+      current || !manifest
+        ? result
+        : `${result} (superseded by ${manifest.address})`,
+    );
+  }
+
+  for (const [name, manifest] of manifests) {
+    if (!manifest) {
+      report(name, "-", `FAIL no manifest at ${manifestPath(chainId, name)}`);
+    } else if (
+      !ledger.some(
+        (entry) =>
+          entry.status === "deployed" &&
+          entry.transactionHash === manifest.transactionHash,
+      )
+    ) {
+      // Deployed before the ledger existed; still the one in use.
+      report(
+        "manifest",
+        manifest.address,
+        await checkCode(hre, manifest, true),
+      );
+    }
+  }
+  if (failures > 0) {
+    console.log(`${failures} deployment(s) failed verification`);
+    process.exitCode = 1;
+  }
+}
+
+const ACTIONS = ["list", "diff", "verify"];
+
+task(
+  "deployments",
+  "Lists, diffs or verifies the deployments recorded for --network",
+)
+  .addPositionalParam("action", "list, diff or verify", "list")
+  .addOptionalPositionalParam(
+    "from",
+    "diff: ledger entry number to compare from (default: second-newest deployment)",
+  )
+  .addOptionalPositionalParam(
+    "to",
+    "diff: ledger entry number to compare to (default: newest deployment)",
+  )
+  .setAction(
+    async (
+      args: { action: string; from?: string; to?: string },
+      hre: HardhatRuntimeEnvironment,
+    ) => {
+      if (!ACTIONS.includes(args.action)) {
+        throw new Error(
+          `Unknown action ${args.action}; expected list, diff or verify`,
+        );
+      }
+      const chainId = await ledgerChainId(hre);
+      const ledger = readLedger(chainId);
+      if (ledger.length === 0) {
+        console.log(`No deployments recorded in ${ledgerPath(chainId)}`);
+        return;
+      }
+      switch (args.action) {
+        case "list":
+          ledger.forEach((entry, index) => console.log(describe(entry, index)));
+          break;
+        case "diff":
+          diff(ledger, args.from, args.to);
+          break;
+        case "verify":
+          await verify(hre, chainId, ledger);
+          break;
+      }
+    },
+  );
@@ -0,0 +1,361 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ContractTransactionResponse, toBeHex } from "ethers";
+import { ethers, fhevm } from "hardhat";
+
+import { decryptionStateHash } from "../src/decryption";
+import { isExpired, resolveExpiresAt } from "../src/expiry";
+import { GiftCardFHE, GiftCardFHE__factory } from "../types";
+
+const TOKEN_ID = 1n;
+const DAY = 24 * 60 * 60;
+
+describe("GiftCardFHE", function () {
+  let provider: HardhatEthersSigner;
+  let holder: HardhatEthersSigner;
+  let contract: GiftCardFHE;
+  let address: string;
+
+  const encrypt = async (units: number) => {
+    const input = fhevm.createEncryptedInput(address, provider.address);
+    input.add32(units);
+    return input.encrypt();
+  };
+
+  const issue = async (units: number, expiresAt = 0, tokenId = TOKEN_ID) => {
+    const { handles, inputProof } = await encrypt(units);
+    return contract.issueCard(
+      tokenId,
+      holder.address,
+      handles[0],
+      inputProof,
+      expiresAt,
+    );
+  };
+
+  const redeem = async (units: number) => {
+    const { handles, inputProof } = await encrypt(units);
+    return contract.redeemFromCard(TOKEN_ID, handles[0], inputProof);
+  };
+
+  const balance = async (tokenId = TOKEN_ID, signer = provider) =>
+    fhevm.userDecryptEuint(
+      FhevmType.euint32,
+      await contract.getCardBalance(tokenId),
+      address,
+      signer,
+    );
+
+  // Decrypts the encrypted approval flag CardRedeemed carries.
+  const approved = async (tx: ContractTransactionResponse) => {
+    const receipt = await tx.wait();
+    const event = receipt!.logs
+      .map((log) => contract.interface.parseLog(log))
+      .find((parsed) => parsed?.name === "CardRedeemed");
+    return fhevm.userDecryptEbool(
+      toBeHex(event!.args.encryptedApproved, 32),
+      address,
+      provider,
+    );
+  };
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) this.skip();
+    [provider, holder] = await ethers.getSigners();
+    contract = await new GiftCardFHE__factory(provider).deploy();
+    address = await contract.getAddress();
+    await contract.setCooldownSeconds(0);
+    await contract.openBatch();
+  });
+
+  describe("encrypted inputs", function () {
+    it("stores the encrypted amounts submitted with their input proofs", async function () {
+      await issue(100);
+      expect(await balance()).to.equal(100n);
+
+      const { handles, inputProof } = await encrypt(25);
+      await contract.topUpCard(TOKEN_ID, handles[0], inputProof);
+      expect(await balance()).to.equal(125n);
+
+      await redeem(20);
+      expect(await balance()).to.equal(105n);
+    });
+
+    it("never exposes the balance as a plaintext on chain", async function () {
+      await issue(100);
+      const handle = await contract.getCardBalance(TOKEN_ID);
+      expect(handle).to.match(/^0x[0-9a-f]{64}$/);
+      expect(BigInt(handle)).to.not.equal(100n);
+    });
+
+    it("rejects an input encrypted for another sender", async function () {
+      const input = fhevm.createEncryptedInput(address, holder.address);
+      input.add32(100);
+      const { handles, inputProof } = await input.encrypt();
+      await expect(
+        contract.issueCard(TOKEN_ID, holder.address, handles[0], inputProof, 0),
+      ).to.be.reverted;
+    });
+
+    it("rejects an input proof that does not cover the handle", async function () {
+      const first = await encrypt(100);
+      const second = await encrypt(1_000_000);
+      await expect(
+        contract.issueCard(
+          TOKEN_ID,
+          holder.address,
+          second.handles[0],
+          first.inputProof,
+          0,
+        ),
+      ).to.be.reverted;
+    });
+  });
+
+  describe("redeemFromCard", function () {
+    it("debits the amount when the balance covers it", async function () {
+      await issue(100);
+      const tx = await redeem(40);
+
+      expect(await approved(tx)).to.equal(true);
+      expect(await balance()).to.equal(60n);
+    });
+
+    it("debits nothing and reports a decline when the amount exceeds the balance", async function () {
+      await issue(100);
+      const tx = await redeem(101);
+
+      expect(await approved(tx)).to.equal(false);
+      expect(await balance()).to.equal(100n);
+    });
+
+    it("approves redeeming the whole balance", async function () {
+      await issue(100);
+      const tx = await redeem(100);
+
+      expect(await approved(tx)).to.equal(true);
+      expect(await balance()).to.equal(0n);
+    });
+
+    it("reverts with CardExpired once the expiry is reached", async function () {
+      const expiresAt = (await time.latest()) + DAY;
+      await issue(100, expiresAt);
+      await time.increaseTo(expiresAt);
+
+      expect(await contract.isExpired(TOKEN_ID)).to.equal(true);
+      await expect(redeem(10)).to.be.revertedWithCustomError(
+        contract,
+        "CardExpired",
+      );
+    });
+  });
+
+  describe("issueCard expiry", function () {
+    it("reverts with InvalidExpiry for an expiry in the past", async function () {
+      const now = await time.latest();
+      await expect(issue(100, now)).to.be.revertedWithCustomError(
+        contract,
+        "InvalidExpiry",
+      );
+    });
+
+    it("applies the issuer's default validity period when no expiry is given", async function () {
+      await contract.setDefaultValidityPeriod(30 * DAY);
+      const tx = await issue(100);
+      const { timestamp } = (await ethers.provider.getBlock(
+        (await tx.wait())!.blockNumber,
+      ))!;
+
+      const expected = BigInt(timestamp + 30 * DAY);
+      expect((await contract.giftCards(TOKEN_ID)).expiresAt).to.equal(expected);
+      await expect(tx)
+        .to.emit(contract, "CardIssued")
+        .withArgs(TOKEN_ID, holder.address, 1n, expected);
+    });
+
+    it("keeps cards without expiry when there is no default validity period", async function () {
+      await issue(100);
+      expect((await contract.giftCards(TOKEN_ID)).expiresAt).to.equal(0n);
+    });
+
+    it("prefers an explicit expiry over the default validity period", async function () {
+      await contract.setDefaultValidityPeriod(30 * DAY);
+      const expiresAt = (await time.latest()) + DAY;
+      await issue(100, expiresAt);
+      expect((await contract.giftCards(TOKEN_ID)).expiresAt).to.equal(
+        BigInt(expiresAt),
+      );
+    });
+  });
+
+  describe("expiry policy", function () {
+    it("redeems until the second before the expiry", async function () {
+      const expiresAt = (await time.latest()) + DAY;
+      await issue(100, expiresAt);
+      await time.setNextBlockTimestamp(expiresAt - 1);
+
+      await redeem(10);
+      expect(await balance()).to.equal(90n);
+    });
+
+    it("agrees with the SDK's isExpired on both sides of the expiry", async function () {
+      const expiresAt = (await time.latest()) + DAY;
+      await issue(100, expiresAt);
+
+      for (const at of [expiresAt - 1, expiresAt]) {
+        await time.increaseTo(at);
+        expect(await contract.isExpired(TOKEN_ID)).to.equal(
+          isExpired(expiresAt, await time.latest()),
+        );
+      }
+    });
+
+    it("stores the expiry the SDK's resolveExpiresAt predicts", async function () {
+      await contract.setDefaultValidityPeriod(7 * DAY);
+      const tx = await issue(100);
+      const { timestamp } = (await ethers.provider.getBlock(
+        (await tx.wait())!.blockNumber,
+      ))!;
+
+      expect((await contract.giftCards(TOKEN_ID)).expiresAt).to.equal(
+        BigInt(resolveExpiresAt(timestamp, 7 * DAY)),
+      );
+    });
+
+    it("keeps default validity periods per issuer", async function () {
+      await contract.addProvider(holder.address);
+      await expect(contract.setDefaultValidityPeriod(30 * DAY))
+        .to.emit(contract, "DefaultValidityPeriodSet")
+        .withArgs(provider.address, 0n, BigInt(30 * DAY));
+
+      expect(await contract.defaultValidityPeriod(provider.address)).to.equal(
+        BigInt(30 * DAY),
+      );
+      expect(await contract.defaultValidityPeriod(holder.address)).to.equal(0n);
+    });
+
+    it("lets only providers set a default validity period", async function () {
+      await expect(
+        contract.connect(holder).setDefaultValidityPeriod(DAY),
+      ).to.be.revertedWithCustomError(contract, "NotProvider");
+    });
+  });
+
+  describe("card holder", function () {
+    it("reverts with InvalidHolder for the zero address", async function () {
+      const { handles, inputProof } = await encrypt(100);
+      await expect(
+        contract.issueCard(
+          TOKEN_ID,
+          ethers.ZeroAddress,
+          handles[0],
+          inputProof,
+          0,
+        ),
+      ).to.be.revertedWithCustomError(contract, "InvalidHolder");
+    });
+
+    it("lets a holder who is not a provider decrypt the balance after every change", async function () {
+      expect(await contract.providers(holder.address)).to.equal(false);
+      await issue(100);
+      expect((await contract.giftCards(TOKEN_ID)).holder).to.equal(
+        holder.address,
+      );
+      expect(await balance(TOKEN_ID, holder)).to.equal(100n);
+
+      const { handles, inputProof } = await encrypt(50);
+      await contract.topUpCard(TOKEN_ID, handles[0], inputProof);
+      expect(await balance(TOKEN_ID, holder)).to.equal(150n);
+
+      await redeem(30);
+      expect(await balance(TOKEN_ID, holder)).to.equal(120n);
+    });
+  });
+
+  describe("balance decryption", function () {
+    const requestDecryption = async (tokenId: bigint) => {
+      const receipt = await (
+        await contract.requestCardBalanceDecryption(tokenId)
+      ).wait();
+      const event = receipt!.logs
+        .map((log) => contract.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "DecryptionRequested");
+      return event!.args.requestId as bigint;
+    };
+
+    it("records the requested card and completes with its balance", async function () {
+      await issue(100, 0, 1n);
+      await issue(250, 0, 2n);
+      const requestId = await requestDecryption(2n);
+
+      const context = await contract.decryptionContexts(requestId);
+      expect(context.tokenId).to.equal(2n);
+      expect(context.processed).to.equal(false);
+
+      await fhevm.awaitDecryptionOracle();
+      expect((await contract.decryptionContexts(requestId)).processed).to.equal(
+        true,
+      );
+      const [completed] = await contract.queryFilter(
+        contract.filters.DecryptionCompleted(requestId),
+      );
+      expect(completed.args.decryptedBalance).to.equal(250n);
+    });
+
+    it("stores the state hash the SDK derives from the card's balance handle", async function () {
+      await issue(100);
+      const requestId = await requestDecryption(TOKEN_ID);
+
+      const context = await contract.decryptionContexts(requestId);
+      expect(context.batchId).to.equal(1n);
+      expect(context.stateHash).to.equal(
+        decryptionStateHash(address, await contract.getCardBalance(TOKEN_ID)),
+      );
+      await fhevm.awaitDecryptionOracle();
+    });
+
+    it("rejects a second callback for a completed request with ReplayAttempt", async function () {
+      await issue(100);
+      const requestId = await requestDecryption(TOKEN_ID);
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(
+        contract.myCallback(requestId, "0x", "0x"),
+      ).to.be.revertedWithCustomError(contract, "ReplayAttempt");
+    });
+
+    it("reverts a request for a card that was never issued", async function () {
+      await expect(
+        contract.requestCardBalanceDecryption(TOKEN_ID),
+      ).to.be.revertedWith("FHE value must be initialized.");
+    });
+
+    it("rejects the callback with StateMismatch once the card changed", async function () {
+      await issue(100);
+      const requestId = await requestDecryption(TOKEN_ID);
+      await redeem(10);
+
+      await expect(
+        contract.myCallback(requestId, "0x", "0x"),
+      ).to.be.revertedWithCustomError(contract, "StateMismatch");
+      // The mock oracle's own answer fails the same way; draining it here keeps
+      // the stale request from surfacing in later tests.
+      await expect(fhevm.awaitDecryptionOracle()).to.be.rejected;
+    });
+
+    it("is not affected by changes to other cards", async function () {
+      await issue(100, 0, 1n);
+      await issue(250, 0, 2n);
+      const requestId = await requestDecryption(1n);
+      const { handles, inputProof } = await encrypt(5);
+      await contract.topUpCard(2n, handles[0], inputProof);
+
+      await fhevm.awaitDecryptionOracle();
+      expect((await contract.decryptionContexts(requestId)).processed).to.equal(
+        true,
+      );
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { expect } from "chai";
+
+import {
+  COOLDOWN_MARGIN_SECONDS,
+  CooldownQueue,
+  CooldownStatus,
+  OperationCancelledError,
+  QueuedOperation,
+  cooldownReadyAt,
+  cooldownRemaining,
+} from "../src/cooldown";
+
+const READY: CooldownStatus = {
+  cooldownSeconds: 60,
+  lastSubmissionTime: 0,
+  lastDecryptionRequestTime: 0,
+};
+
+// Answers getCooldownStatus from `statuses` in order, repeating the last one.
+function fakeClient(...statuses: (CooldownStatus | Error)[]) {
+  const reads: string[] = [];
+  return {
+    reads,
+    getCooldownStatus: async (account: string) => {
+      reads.push(account);
+      const status =
+        statuses.length > 1 ? statuses.shift()! : (statuses[0] ?? READY);
+      if (status instanceof Error) throw status;
+      return status;
+    },
+  };
+}
+
+describe("cooldown", function () {
+  describe("cooldownRemaining", function () {
+    it("is zero for an account that never submitted", function () {
+      expect(cooldownReadyAt(READY, "submission")).to.equal(0);
+      expect(cooldownRemaining(READY, "submission", 1_000)).to.equal(0);
+    });
+
+    it("adds the safety margin to the on-chain ready time", function () {
+      const status = { ...READY, lastSubmissionTime: 1_000 };
+      expect(cooldownReadyAt(status, "submission")).to.equal(1_060);
+      expect(cooldownRemaining(status, "submission", 1_030)).to.equal(
+        30 + COOLDOWN_MARGIN_SECONDS,
+      );
+      expect(
+        cooldownRemaining(
+          status,
+          "submission",
+          1_060 + COOLDOWN_MARGIN_SECONDS,
+        ),
+      ).to.equal(0);
+    });
+
+    it("keeps separate clocks for submissions and decryption requests", function () {
+      const status = { ...READY, lastDecryptionRequestTime: 1_000 };
+      expect(cooldownRemaining(status, "submission", 1_010)).to.equal(0);
+      expect(cooldownRemaining(status, "decryption", 1_010)).to.equal(
+        50 + COOLDOWN_MARGIN_SECONDS,
+      );
+    });
+  });
+
+  describe("CooldownQueue", function () {
+    it("sends operations one at a time in the order they were queued", async function () {
+      const queue = new CooldownQueue(fakeClient(), "0xprovider");
+      const log: string[] = [];
+      let active = 0;
+      const operation = (label: string) => async () => {
+        active++;
+        expect(active).to.equal(1);
+        log.push(`start ${label}`);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        log.push(`end ${label}`);
+        active--;
+        return label;
+      };
+
+      const results = await Promise.all([
+        queue.enqueue("submission", "a", operation("a")),
+        queue.enqueue("decryption", "b", operation("b")),
+        queue.enqueue("submission", "c", operation("c")),
+      ]);
+
+      expect(results).to.deep.equal(["a", "b", "c"]);
+      expect(log).to.deep.equal([
+        "start a",
+        "end a",
+        "start b",
+        "end b",
+        "start c",
+        "end c",
+      ]);
+      expect(queue.queued()).to.deep.equal([]);
+    });
+
+    it("re-reads the cooldown before each send and waits until it has elapsed", async function () {
+      this.timeout(5_000);
+      const now = Math.floor(Date.now() / 1000);
+      // One or two seconds left once the margin is added, then ready.
+      const client = fakeClient(
+        {
+          ...READY,
+          cooldownSeconds: 0,
+          lastSubmissionTime: now - COOLDOWN_MARGIN_SECONDS + 2,
+        },
+        READY,
+      );
+      const queue = new CooldownQueue(client, "0xprovider");
+
+      const started = Date.now();
+      await queue.enqueue("submission", "issue", async () => "sent");
+      expect(Date.now() - started).to.be.at.least(900);
+      expect(client.reads).to.deep.equal(["0xprovider", "0xprovider"]);
+
+      await queue.enqueue("submission", "top-up", async () => "sent");
+      expect(client.reads).to.have.length(3);
+    });
+
+    it("rejects only the failing operation and carries on with the rest", async function () {
+      const queue = new CooldownQueue(fakeClient(), "0xprovider");
+      const failed = queue.enqueue("submission", "a", async () => {
+        throw new Error("reverted");
+      });
+      const next = queue.enqueue("submission", "b", async () => "b");
+
+      await expect(failed).to.be.rejectedWith("reverted");
+      expect(await next).to.equal("b");
+    });
+
+    it("rejects the operation when the cooldown cannot be read", async function () {
+      const queue = new CooldownQueue(
+        fakeClient(new Error("rpc down"), READY),
+        "0xprovider",
+      );
+      let ran = false;
+      const failed = queue.enqueue("submission", "a", async () => {
+        ran = true;
+      });
+
+      await expect(failed).to.be.rejectedWith("rpc down");
+      expect(ran).to.equal(false);
+      expect(await queue.enqueue("submission", "b", async () => "b")).to.equal(
+        "b",
+      );
+    });
+
+    it("cancels a waiting operation without sending it", async function () {
+      const queue = new CooldownQueue(fakeClient(), "0xprovider");
+      let release!: () => void;
+      const first = queue.enqueue(
+        "submission",
+        "a",
+        () => new Promise<string>((resolve) => (release = () => resolve("a"))),
+      );
+      let ran = false;
+      const second = queue.enqueue("submission", "b", async () => {
+        ran = true;
+      });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      const [sending, waiting] = queue.queued();
+      queue.cancel(sending.id);
+      queue.cancel(waiting.id);
+      release();
+
+      expect(await first).to.equal("a");
+      await expect(second).to.be.rejectedWith(
+        OperationCancelledError,
+        "b was removed from the queue",
+      );
+      expect(ran).to.equal(false);
+    });
+
+    it("notifies subscribers of every change until they unsubscribe", async function () {
+      const queue = new CooldownQueue(fakeClient(), "0xprovider");
+      const seen: QueuedOperation[][] = [];
+      const unsubscribe = queue.subscribe((queued) => seen.push(queued));
+
+      await queue.enqueue("submission", "a", async () => undefined);
+      expect(seen.map((queued) => queued.map((op) => op.label))).to.deep.equal([
+        ["a"],
+        [],
+      ]);
+
+      unsubscribe();
+      await queue.enqueue("submission", "b", async () => undefined);
+      expect(seen).to.have.length(2);
+    });
+  });
+});
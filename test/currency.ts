@@ -0,0 +1,96 @@
+import { expect } from "chai";
+
+import {
+  AmountError,
+  CurrencyConfig,
+  parseAmount,
+  topUpRisk,
+} from "../src/currency";
+import { MAX_UINT32 } from "../src/encryption";
+
+const USD: CurrencyConfig = { code: "USD", decimals: 2 };
+const POINTS: CurrencyConfig = { code: "PTS", decimals: 0 };
+
+describe("currency", function () {
+  describe("parseAmount", function () {
+    it("parses whole and fractional amounts into minor units", function () {
+      expect(parseAmount("12", USD, "en-US")).to.equal(1200n);
+      expect(parseAmount("12.5", USD, "en-US")).to.equal(1250n);
+      expect(parseAmount("0.07", USD, "en-US")).to.equal(7n);
+      expect(parseAmount(".5", USD, "en-US")).to.equal(50n);
+      expect(parseAmount(" 12.50 ", USD, "en-US")).to.equal(1250n);
+    });
+
+    it("accepts group separators every three digits", function () {
+      expect(parseAmount("1,234.56", USD, "en-US")).to.equal(123456n);
+      expect(parseAmount("1,234,567", USD, "en-US")).to.equal(123456700n);
+      expect(parseAmount("1.234,56", USD, "de-DE")).to.equal(123456n);
+      expect(parseAmount("1 234,56", USD, "fr-FR")).to.equal(123456n);
+    });
+
+    it("rejects group separators not followed by exactly three digits", function () {
+      for (const input of ["1,5", "1,50", "1,2345", "12,34.5", "1,", ",500"]) {
+        expect(() => parseAmount(input, USD, "en-US"), input).to.throw(
+          AmountError,
+          "is not a valid amount",
+        );
+      }
+      expect(() => parseAmount("1.5", USD, "de-DE")).to.throw(AmountError);
+      expect(() => parseAmount("1234,567,890", USD, "en-US")).to.throw(
+        AmountError,
+      );
+    });
+
+    it("rejects malformed input", function () {
+      for (const input of ["", " ", ".", "abc", "1.2.3", "-5", "1e3"]) {
+        expect(() => parseAmount(input, USD, "en-US"), input).to.throw(
+          AmountError,
+        );
+      }
+    });
+
+    it("rejects more decimals than the currency allows", function () {
+      expect(() => parseAmount("1.234", USD, "en-US")).to.throw(
+        AmountError,
+        "at most 2 decimal places",
+      );
+      expect(() => parseAmount("1.5", POINTS, "en-US")).to.throw(
+        AmountError,
+        "cannot have decimals",
+      );
+      expect(parseAmount("1,500", POINTS, "en-US")).to.equal(1500n);
+    });
+
+    it("rejects amounts that do not fit in a euint32", function () {
+      expect(parseAmount(String(MAX_UINT32), POINTS, "en-US")).to.equal(
+        MAX_UINT32,
+      );
+      expect(() =>
+        parseAmount(String(MAX_UINT32 + 1n), POINTS, "en-US"),
+      ).to.throw(AmountError, "largest encryptable balance");
+    });
+  });
+
+  describe("topUpRisk", function () {
+    it("reports an overflow when the known balance cannot take the top-up", function () {
+      expect(topUpRisk(100n, MAX_UINT32 - 99n)).to.deep.equal({
+        kind: "overflow",
+        maxSafeBalance: MAX_UINT32 - 100n,
+      });
+    });
+
+    it("allows a top-up that exactly fills the balance", function () {
+      expect(topUpRisk(100n, MAX_UINT32 - 100n)).to.equal(null);
+      expect(topUpRisk(0n, MAX_UINT32)).to.equal(null);
+    });
+
+    it("warns about top-ups over half the range when the balance is unknown", function () {
+      const half = MAX_UINT32 / 2n;
+      expect(topUpRisk(half)).to.equal(null);
+      expect(topUpRisk(half + 1n)).to.deep.equal({
+        kind: "possible",
+        maxSafeBalance: MAX_UINT32 - half - 1n,
+      });
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { expect } from "chai";
+import { AbiCoder, concat, makeError } from "ethers";
+
+import { OperationCancelledError } from "../src/cooldown";
+import { AmountError } from "../src/currency";
+import { CardExpiredError, decodeGiftCardError } from "../src/errors";
+import {
+  decodeRevertReason,
+  describeFailure,
+  formatFailure,
+} from "../src/failures";
+import { GiftCardFHE__factory } from "../types";
+
+const giftCard = GiftCardFHE__factory.createInterface();
+const abi = AbiCoder.defaultAbiCoder();
+
+const errorString = (reason: string) =>
+  concat(["0x08c379a0", abi.encode(["string"], [reason])]);
+const panic = (code: number) =>
+  concat(["0x4e487b71", abi.encode(["uint256"], [code])]);
+
+describe("failures", function () {
+  describe("describeFailure", function () {
+    it("decodes custom errors nested at any depth of a wallet error", function () {
+      const error = {
+        message: "execution reverted",
+        error: { info: { data: giftCard.encodeErrorResult("CardExpired") } },
+      };
+
+      expect(describeFailure(error)).to.deep.equal({
+        kind: "contract",
+        errorName: "CardExpired",
+        message: "The card has expired and can no longer be redeemed",
+        retryHint: "Expired cards cannot be used; issue a new card instead.",
+        retryable: false,
+      });
+      expect(decodeGiftCardError(error)).to.be.instanceOf(CardExpiredError);
+    });
+
+    it("uses the custom error ethers already decoded", function () {
+      const failure = describeFailure({ revert: { name: "CooldownActive" } });
+      expect(failure.kind).to.equal("contract");
+      expect(failure.errorName).to.equal("CooldownActive");
+      expect(failure.retryable).to.equal(true);
+    });
+
+    it("maps the contract's string reverts to plain messages", function () {
+      const error = makeError("execution reverted", "CALL_EXCEPTION", {
+        action: "estimateGas",
+        data: errorString("FHE value must be initialized."),
+        reason: null,
+        transaction: { to: null, data: "0x" },
+        invocation: null,
+        revert: null,
+      });
+
+      expect(describeFailure(error)).to.include({
+        kind: "revert",
+        message: "The card does not exist",
+        retryHint: "Check the token ID.",
+        retryable: false,
+      });
+    });
+
+    it("reports wallet rejections, including bare EIP-1193 4001 errors", function () {
+      const rejected = makeError("user rejected action", "ACTION_REJECTED", {
+        action: "sendTransaction",
+        reason: "rejected",
+      });
+      for (const error of [
+        rejected,
+        { code: 4001, message: "Request denied" },
+      ]) {
+        expect(describeFailure(error)).to.include({
+          kind: "rejected",
+          retryable: true,
+        });
+      }
+    });
+
+    it("recognises funding, nonce and replacement problems", function () {
+      expect(
+        describeFailure(new Error("insufficient funds for gas * price + value"))
+          .kind,
+      ).to.equal("insufficient-funds");
+      expect(
+        describeFailure({ error: { message: "nonce too low" } }).kind,
+      ).to.equal("nonce");
+
+      const replaced = (reason: "cancelled" | "replaced" | "repriced") =>
+        makeError("transaction was replaced", "TRANSACTION_REPLACED", {
+          cancelled: reason !== "repriced",
+          reason,
+          hash: "0x",
+          replacement: {} as never,
+          receipt: {} as never,
+        });
+      expect(describeFailure(replaced("cancelled"))).to.include({
+        kind: "rejected",
+        message: "The transaction was cancelled from the wallet",
+      });
+      expect(describeFailure(replaced("repriced"))).to.include({
+        kind: "nonce",
+        message: "The sped-up transaction was mined but failed",
+      });
+    });
+
+    it("treats throttled and unreachable RPCs as retryable network failures", function () {
+      for (const message of [
+        "429 Too Many Requests",
+        "Failed to fetch",
+        "request timed out",
+      ]) {
+        expect(describeFailure(new Error(message)), message).to.include({
+          kind: "network",
+          retryable: true,
+        });
+      }
+    });
+
+    it("passes SDK errors through before matching messages", function () {
+      expect(
+        describeFailure(new AmountError("Amount cannot be negative")),
+      ).to.deep.equal({
+        kind: "invalid-input",
+        message: "Amount cannot be negative",
+        retryHint: "",
+        retryable: false,
+      });
+      // The label mentions the network, but cancelling is not a network failure.
+      expect(
+        describeFailure(new OperationCancelledError("Retry network call")),
+      ).to.include({ kind: "rejected", retryable: true });
+    });
+
+    it("falls back to the error's own message", function () {
+      expect(describeFailure(new Error("boom"))).to.deep.equal({
+        kind: "unknown",
+        message: "boom",
+        retryHint: "",
+        retryable: false,
+      });
+      expect(describeFailure("boom").message).to.equal("Unknown error");
+    });
+  });
+
+  describe("decodeRevertReason", function () {
+    it("prefers the reason ethers already decoded", function () {
+      expect(decodeRevertReason({ reason: "Not allowed" })).to.equal(
+        "Not allowed",
+      );
+    });
+
+    it("decodes Error(string) and Panic(uint256) revert data", function () {
+      expect(decodeRevertReason({ data: errorString("Bad input") })).to.equal(
+        "Bad input",
+      );
+      expect(decodeRevertReason({ error: { data: panic(0x11) } })).to.equal(
+        "Panic(0x11)",
+      );
+    });
+
+    it("returns undefined for custom errors and errors without revert data", function () {
+      expect(
+        decodeRevertReason({ data: giftCard.encodeErrorResult("NotOwner") }),
+      ).to.equal(undefined);
+      expect(decodeRevertReason(new Error("boom"))).to.equal(undefined);
+      expect(decodeRevertReason(null)).to.equal(undefined);
+    });
+  });
+
+  describe("formatFailure", function () {
+    it("joins the message and the retry hint into one sentence", function () {
+      expect(formatFailure({ revert: { name: "InvalidExpiry" } })).to.equal(
+        "The expiry date must be in the future. Choose an expiry date in the future.",
+      );
+    });
+
+    it("does not double the punctuation of messages that end in a period", function () {
+      expect(formatFailure(new Error("request timed out."))).to.equal(
+        "The network request failed: request timed out. Check your connection and try again in a moment.",
+      );
+    });
+
+    it("returns the message alone when there is no hint", function () {
+      expect(formatFailure(new Error("boom."))).to.equal("boom.");
+    });
+  });
+});
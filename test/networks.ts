@@ -0,0 +1,158 @@
+import { expect } from "chai";
+import fs from "fs";
+import path from "path";
+
+import {
+  NetworkConfigError,
+  assertNetworkRegistry,
+  explorerTransactionUrl,
+  findNetwork,
+} from "../src/networks";
+
+const SHIPPED = path.join(
+  __dirname,
+  "..",
+  "frontend",
+  "web",
+  "public",
+  "networks.json",
+);
+
+const ADDRESS = "0x687820221192C5B662b25367F70076A37bc79b6c";
+
+// A minimal valid registry; each test breaks one field of a fresh copy.
+const registry = () => ({
+  defaultChainId: 31337,
+  networks: {
+    "31337": {
+      chainId: 31337,
+      name: "Hardhat",
+      nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+      rpcUrls: ["http://127.0.0.1:8545/"],
+      contracts: {
+        giftCard: {
+          address: ADDRESS,
+          deployBlock: 0,
+          currency: { code: "USD", decimals: 2 },
+        },
+      },
+    } as Record<string, any>,
+  },
+});
+
+const expectInvalid = (value: unknown, message: string) =>
+  expect(() => assertNetworkRegistry(value)).to.throw(
+    NetworkConfigError,
+    message,
+  );
+
+describe("networks", function () {
+  describe("assertNetworkRegistry", function () {
+    it("accepts the networks.json the frontend ships", function () {
+      const shipped = assertNetworkRegistry(
+        JSON.parse(fs.readFileSync(SHIPPED, "utf-8")),
+      );
+      expect(shipped.defaultChainId).to.equal(11155111);
+      expect(findNetwork(shipped, 11155111n)?.fhe?.gatewayChainId).to.equal(
+        55815,
+      );
+      expect(findNetwork(shipped, 1)).to.equal(undefined);
+    });
+
+    it("normalizes URLs and leaves optional sections undefined", function () {
+      const { networks } = assertNetworkRegistry(registry());
+      const hardhat = networks[31337];
+
+      expect(hardhat.rpcUrls).to.deep.equal(["http://127.0.0.1:8545"]);
+      expect(hardhat.explorerUrl).to.equal(undefined);
+      expect(hardhat.contracts.legacyAdapter).to.equal(undefined);
+      expect(hardhat.fhe).to.equal(undefined);
+      expect(explorerTransactionUrl(hardhat, "0xabc")).to.equal(undefined);
+    });
+
+    it("builds explorer links from the configured base URL", function () {
+      const value = registry();
+      value.networks["31337"].explorerUrl = "https://explorer.example/";
+      const { networks } = assertNetworkRegistry(value);
+
+      expect(explorerTransactionUrl(networks[31337], "0xabc")).to.equal(
+        "https://explorer.example/tx/0xabc",
+      );
+    });
+
+    it("names the path and value of the first invalid field", function () {
+      const cases: [(network: Record<string, any>) => void, string][] = [
+        [
+          (n) => (n.contracts.giftCard.address = "0x123"),
+          'networks.31337.contracts.giftCard.address must be an address, got "0x123"',
+        ],
+        [
+          (n) => (n.rpcUrls = []),
+          "networks.31337.rpcUrls must be a non-empty array, got []",
+        ],
+        [
+          (n) => (n.rpcUrls = ["ws://127.0.0.1:8546"]),
+          "networks.31337.rpcUrls[0] must be an http(s) URL",
+        ],
+        [
+          (n) => (n.nativeCurrency.decimals = 1.5),
+          "networks.31337.nativeCurrency.decimals must be an integer of at least 0, got 1.5",
+        ],
+        [
+          (n) => (n.name = " "),
+          "networks.31337.name must be a non-empty string",
+        ],
+        [
+          (n) => delete n.contracts.giftCard.deployBlock,
+          "networks.31337.contracts.giftCard.deployBlock must be an integer of at least 0, got undefined",
+        ],
+        [
+          (n) => (n.fhe = { relayerUrl: "https://relayer.example" }),
+          "networks.31337.fhe.gatewayChainId must be an integer of at least 1",
+        ],
+        [
+          (n) => (n.contracts.legacyAdapter = []),
+          "networks.31337.contracts.legacyAdapter must be an object, got []",
+        ],
+      ];
+      for (const [breakField, message] of cases) {
+        const value = registry();
+        breakField(value.networks["31337"]);
+        expectInvalid(value, message);
+      }
+    });
+
+    it("rejects currency settings the currency module cannot handle", function () {
+      const value = registry();
+      value.networks["31337"].contracts.giftCard.currency.decimals = 12;
+      expect(() => assertNetworkRegistry(value)).to.throw(
+        "Currency decimals must be an integer from 0 to 9, got 12",
+      );
+    });
+
+    it("requires every network to sit under its own chainId", function () {
+      const value = registry();
+      value.networks["31337"].chainId = 1;
+      expectInvalid(
+        value,
+        "networks.31337 is keyed by 31337 but has chainId 1",
+      );
+    });
+
+    it("requires the default chain to be configured", function () {
+      expectInvalid(
+        { ...registry(), defaultChainId: 1 },
+        "defaultChainId 1 is not one of the configured networks",
+      );
+      expectInvalid(
+        { networks: registry().networks },
+        "defaultChainId must be an integer of at least 1",
+      );
+    });
+
+    it("rejects a registry that is not an object", function () {
+      expectInvalid([], "networks.json must be an object, got []");
+      expectInvalid({ defaultChainId: 1 }, "networks must be an object");
+    });
+  });
+});
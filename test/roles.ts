@@ -0,0 +1,127 @@
+import { expect } from "chai";
+
+import { RoleService } from "../src/roles";
+
+const OWNER = "0x00000000000000000000000000000000000000Aa";
+const PROVIDER = "0x00000000000000000000000000000000000000bB";
+const CUSTOMER = "0x00000000000000000000000000000000000000Cc";
+
+// Answers from mutable state and counts reads, like a contract behind an RPC.
+function fakeClient() {
+  const state = {
+    owner: OWNER,
+    providers: new Set([OWNER.toLowerCase(), PROVIDER.toLowerCase()]),
+    ownerReads: 0,
+    providerReads: 0,
+    fail: false,
+  };
+  const client = {
+    owner: async () => {
+      state.ownerReads++;
+      if (state.fail) throw new Error("rpc down");
+      return state.owner;
+    },
+    isProvider: async (account: string) => {
+      state.providerReads++;
+      if (state.fail) throw new Error("rpc down");
+      return state.providers.has(account.toLowerCase());
+    },
+  };
+  return { state, client };
+}
+
+describe("RoleService", function () {
+  it("derives owner, provider and customer roles", async function () {
+    const roles = new RoleService(fakeClient().client);
+
+    expect(await roles.getRoles(OWNER)).to.deep.equal({
+      account: OWNER,
+      role: "owner",
+      isOwner: true,
+      isProvider: true,
+    });
+    expect((await roles.getRoles(PROVIDER)).role).to.equal("provider");
+    expect(await roles.getRoles(CUSTOMER)).to.deep.equal({
+      account: CUSTOMER,
+      role: "customer",
+      isOwner: false,
+      isProvider: false,
+    });
+  });
+
+  it("matches accounts case-insensitively and caches reads", async function () {
+    const { state, client } = fakeClient();
+    const roles = new RoleService(client);
+
+    await roles.getRoles(PROVIDER);
+    await roles.getRoles(PROVIDER.toLowerCase());
+    expect((await roles.getRoles(OWNER.toUpperCase())).isOwner).to.equal(true);
+
+    expect(state.ownerReads).to.equal(1);
+    expect(state.providerReads).to.equal(2);
+  });
+
+  it("re-reads only the provider a ProviderAdded or ProviderRemoved names", async function () {
+    const { state, client } = fakeClient();
+    const roles = new RoleService(client);
+    await roles.getRoles(PROVIDER);
+    await roles.getRoles(CUSTOMER);
+
+    state.providers.delete(PROVIDER.toLowerCase());
+    roles.applyEvent("ProviderRemoved", PROVIDER.toLowerCase());
+
+    expect((await roles.getRoles(PROVIDER)).role).to.equal("customer");
+    await roles.getRoles(CUSTOMER);
+    expect(state.providerReads).to.equal(3);
+    expect(state.ownerReads).to.equal(1);
+  });
+
+  it("re-reads the owner after OwnershipTransferred", async function () {
+    const { state, client } = fakeClient();
+    const roles = new RoleService(client);
+    expect((await roles.getRoles(PROVIDER)).role).to.equal("provider");
+
+    state.owner = PROVIDER;
+    roles.applyEvent("OwnershipTransferred");
+
+    expect((await roles.getRoles(PROVIDER)).role).to.equal("owner");
+    expect((await roles.getRoles(OWNER)).isOwner).to.equal(false);
+    expect(state.ownerReads).to.equal(2);
+  });
+
+  it("notifies listeners once per batch, and not for unrelated events", function () {
+    const roles = new RoleService(fakeClient().client);
+    let notified = 0;
+    const unsubscribe = roles.subscribe(() => notified++);
+
+    roles.applyEvents([
+      { name: "ProviderAdded", provider: CUSTOMER },
+      { name: "ProviderRemoved", provider: PROVIDER },
+      { name: "OwnershipTransferred" },
+    ]);
+    expect(notified).to.equal(1);
+
+    roles.applyEvents([{ name: "CardIssued" }, { name: "ProviderAdded" }]);
+    expect(notified).to.equal(1);
+
+    roles.invalidate();
+    expect(notified).to.equal(2);
+
+    unsubscribe();
+    roles.invalidate();
+    expect(notified).to.equal(2);
+  });
+
+  it("does not cache failed reads", async function () {
+    const { state, client } = fakeClient();
+    const roles = new RoleService(client);
+
+    state.fail = true;
+    await expect(roles.getRoles(PROVIDER)).to.be.rejectedWith("rpc down");
+
+    state.fail = false;
+    expect((await roles.getRoles(PROVIDER)).role).to.equal("provider");
+    expect(state.ownerReads).to.equal(2);
+    expect(state.providerReads).to.equal(2);
+  });
+});
@@ -0,0 +1,227 @@
+import { expect } from "chai";
+import http from "http";
+import { AddressInfo } from "net";
+
+import { PooledRpcProvider, RpcPool, RpcUnavailableError } from "../src/rpc";
+
+const CHAIN_ID = 31337;
+
+// What a scripted endpoint does with one JSON-RPC request.
+type Reply =
+  | { result: unknown }
+  | { error: { code: number; message: string } }
+  | { status: number }
+  | "hang";
+
+interface FakeEndpoint {
+  url: string;
+  // Methods received, eth_chainId included.
+  calls: string[];
+  reply: (method: string) => Reply;
+}
+
+const servers: http.Server[] = [];
+
+async function endpoint(
+  reply: (method: string) => Reply = () => ({ result: "0x1" }),
+  chainId = CHAIN_ID,
+): Promise<FakeEndpoint> {
+  const fake: FakeEndpoint = { url: "", calls: [], reply };
+  const server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const { id, method } = JSON.parse(body);
+      fake.calls.push(method);
+      const answer: Reply =
+        method === "eth_chainId"
+          ? { result: `0x${chainId.toString(16)}` }
+          : fake.reply(method);
+      if (answer === "hang") return;
+      if ("status" in answer) {
+        res.writeHead(answer.status).end();
+        return;
+      }
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify({ jsonrpc: "2.0", id, ...answer }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  servers.push(server);
+  fake.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  return fake;
+}
+
+const request = (method = "eth_blockNumber") => ({
+  method,
+  params: [],
+  id: 1,
+  jsonrpc: "2.0" as const,
+});
+
+const healthOf = (pool: RpcPool, url: string) =>
+  pool.health().find((health) => health.url === url);
+
+const methodCalls = (fake: FakeEndpoint, method = "eth_blockNumber") =>
+  fake.calls.filter((call) => call === method).length;
+
+describe("RpcPool", function () {
+  afterEach(async function () {
+    for (const server of servers.splice(0)) {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("fails over when an endpoint returns an HTTP error and ranks it last", async function () {
+    const down = await endpoint(() => ({ status: 502 }));
+    const up = await endpoint(() => ({ result: "0x2a" }));
+    const pool = new RpcPool([down.url, up.url], CHAIN_ID);
+
+    const [result] = await pool.send(request());
+    expect(result).to.deep.include({ result: "0x2a" });
+
+    const [first, second] = pool.health();
+    expect(first).to.include({ url: up.url, failures: 0, requests: 1 });
+    expect(second).to.include({
+      url: down.url,
+      failures: 1,
+      consecutiveFailures: 1,
+    });
+
+    await pool.send(request());
+    expect(methodCalls(down)).to.equal(1);
+    expect(methodCalls(up)).to.equal(2);
+  });
+
+  it("treats throttled JSON-RPC responses as failures", async function () {
+    for (const error of [
+      { code: 429, message: "Too Many Requests" },
+      { code: -32005, message: "limit exceeded" },
+      { code: -32000, message: "daily request capacity exceeded" },
+    ]) {
+      const throttled = await endpoint(() => ({ error }));
+      const up = await endpoint();
+      const pool = new RpcPool([throttled.url, up.url], CHAIN_ID);
+
+      const [result] = await pool.send(request());
+      expect(result, error.message).to.deep.include({ result: "0x1" });
+      expect(pool.health()[1]).to.include({
+        url: throttled.url,
+        lastError: error.message,
+      });
+    }
+  });
+
+  it("returns other JSON-RPC errors such as reverts without failing over", async function () {
+    const reverting = await endpoint(() => ({
+      error: { code: 3, message: "execution reverted" },
+    }));
+    const other = await endpoint();
+    const pool = new RpcPool([reverting.url, other.url], CHAIN_ID);
+
+    const [result] = await pool.send(request("eth_call"));
+    expect(result).to.deep.include({
+      error: { code: 3, message: "execution reverted" },
+    });
+    expect(other.calls).to.deep.equal([]);
+    expect(healthOf(pool, reverting.url)).to.include({
+      requests: 1,
+      failures: 0,
+    });
+  });
+
+  it("fails over when an endpoint does not answer in time", async function () {
+    const slow = await endpoint(() => "hang");
+    const up = await endpoint();
+    const pool = new RpcPool([slow.url, up.url], CHAIN_ID, { timeoutMs: 200 });
+
+    const [result] = await pool.send(request());
+    expect(result).to.deep.include({ result: "0x1" });
+    expect(pool.health()[1].lastError).to.equal("RPC timeout after 200 ms");
+  });
+
+  it("checks the chain id once per endpoint and drops endpoints on another chain", async function () {
+    const wrongChain = await endpoint(undefined, 1);
+    const up = await endpoint();
+    const pool = new RpcPool([wrongChain.url, up.url], CHAIN_ID);
+
+    await pool.send(request());
+    await pool.send(request());
+    await pool.send(request());
+
+    expect(methodCalls(up, "eth_chainId")).to.equal(1);
+    expect(methodCalls(up)).to.equal(3);
+    expect(wrongChain.calls).to.deep.equal(["eth_chainId"]);
+    expect(pool.health().map((health) => health.url)).to.deep.equal([up.url]);
+  });
+
+  it("tries preferred endpoints before the others", async function () {
+    const preferred = await endpoint();
+    const other = await endpoint();
+    const pool = new RpcPool([other.url], CHAIN_ID, {
+      preferredUrls: [preferred.url],
+    });
+
+    await pool.send(request());
+    expect(methodCalls(preferred)).to.equal(1);
+    expect(other.calls).to.deep.equal([]);
+    expect(pool.health()[0]).to.include({
+      url: preferred.url,
+      preferred: true,
+    });
+  });
+
+  it("gives a failed endpoint another chance once its cooldown has passed", async function () {
+    let failing = true;
+    const flaky = await endpoint(() =>
+      failing ? { status: 500 } : { result: "0x1" },
+    );
+    const down = await endpoint(() => ({ status: 500 }));
+    const pool = new RpcPool([flaky.url, down.url], CHAIN_ID, {
+      cooldownMs: 100,
+    });
+
+    await expect(pool.send(request())).to.be.rejectedWith(RpcUnavailableError);
+    failing = false;
+    await new Promise((resolve) => setTimeout(resolve, 150));
+
+    const [result] = await pool.send(request());
+    expect(result).to.deep.include({ result: "0x1" });
+    expect(healthOf(pool, flaky.url)).to.include({
+      failures: 1,
+      consecutiveFailures: 0,
+    });
+  });
+
+  it("throws RpcUnavailableError with the last cause when every endpoint fails", async function () {
+    const a = await endpoint(() => ({ status: 500 }));
+    const b = await endpoint(() => ({
+      error: { code: 429, message: "rate limited" },
+    }));
+    const pool = new RpcPool([a.url, b.url], CHAIN_ID);
+
+    await expect(pool.send(request())).to.be.rejectedWith(
+      RpcUnavailableError,
+      "No RPC endpoint answered: rate limited",
+    );
+  });
+
+  it("serves an ethers provider, failing over underneath it", async function () {
+    const down = await endpoint(() => ({ status: 503 }));
+    const up = await endpoint(() => ({ result: "0x2a" }));
+    const provider = new PooledRpcProvider(
+      new RpcPool([down.url, up.url], CHAIN_ID),
+    );
+
+    expect(await provider.getBlockNumber()).to.equal(42);
+    expect((await provider.getNetwork()).chainId).to.equal(BigInt(CHAIN_ID));
+    provider.destroy();
+  });
+
+  it("rejects an empty URL list", function () {
+    expect(() => new RpcPool([], CHAIN_ID)).to.throw(
+      "RpcPool needs at least one URL",
+    );
+  });
+});
@@ -1,4 +1,6 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+import type * as giftCardFheSol from "./Gift_Card_Fhe.sol";
+export type { giftCardFheSol };
 export type { UniversalAdapter } from "./UniversalAdapter";
@@ -0,0 +1,896 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  GiftCardFHE,
+  GiftCardFHEInterface,
+} from "../../../contracts/Gift_Card_Fhe.sol/GiftCardFHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "CardExpired",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CardNotFound",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "CooldownActive",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "DecryptionFailed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "HandlesAlreadySavedForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidAmount",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBatchState",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidExpiry",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidHolder",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoHandleFoundForRequestID",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOwner",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotProvider",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "PausedError",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ReplayAttempt",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "StateMismatch",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "BatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "expiresAt",
+        type: "uint256",
+      },
+    ],
+    name: "CardIssued",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "encryptedAmountToRedeem",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "encryptedApproved",
+        type: "uint256",
+      },
+    ],
+    name: "CardRedeemed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "CardToppedUp",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldCooldownSeconds",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "CooldownSecondsSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "decryptedBalance",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestID",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionFulfilled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+    ],
+    name: "DecryptionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "oldValidityPeriod",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "newValidityPeriod",
+        type: "uint256",
+      },
+    ],
+    name: "DefaultValidityPeriodSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Paused",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "ProviderRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "Unpaused",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "addProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "batchOpen",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "closeBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "cooldownSeconds",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "currentBatchId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "decryptionContexts",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "batchId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32",
+        name: "stateHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bool",
+        name: "processed",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "defaultValidityPeriod",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "getCardBalance",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "giftCards",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "encryptedBalance",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "lastUsedBatchId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "expiresAt",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "isExpired",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedInitialBalance",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "expiresAt",
+        type: "uint256",
+      },
+    ],
+    name: "issueCard",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastDecryptionRequestTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "lastSubmissionTime",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "cleartexts",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "proof",
+        type: "bytes",
+      },
+    ],
+    name: "myCallback",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "openBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "pause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "paused",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "providers",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "redeemFromCard",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "provider",
+        type: "address",
+      },
+    ],
+    name: "removeProvider",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "requestCardBalanceDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newCooldownSeconds",
+        type: "uint256",
+      },
+    ],
+    name: "setCooldownSeconds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "newValidityPeriod",
+        type: "uint256",
+      },
+    ],
+    name: "setDefaultValidityPeriod",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "topUpCard",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "unpause",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080604052346101bd575f60606100146101c1565b828152826020820152826040820152015261002d6101c1565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649703908282541617905533905f5416175f55335f52600160205260405f2060ff19906001828254161790558060025416600255603c6003555f6007556008541660085560018060a01b035f5416604051907fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a5f80a2611d2590816101f58239f35b5f80fd5b60405190608082016001600160401b038111838210176101e057604052565b634e487b7160e01b5f52604160045260245ffdfe6080604081815260049081361015610015575f80fd5b5f925f3560e01c90816304c7a7cd146116a8575080630787bc271461166c57806307ea2f2f146113095780630a763da1146112ea578063124bd04b14610fa65780631f96c1a814610f145780633f4ba83a14610eba57806346e2577a14610e4c5780635a947cf514610a9e5780635a94a07914610a665780635c975abb14610a4257806367d5955b14610a0a5780637b5b11571461099a5780638456cb591461092f5780638a355a57146108b65780638da5cb5b1461088e5780639898135f146108395780639953444914610618578063a4365476146105e2578063aad11e59146105a7578063abb382b51461052c578063acd7510314610508578063b65e8941146104b9578063b8221bc41461049a578063c6f74f8514610227578063d9548e53146101fb578063da1f12ab146101da5763f2fde38b14610155575f80fd5b346101d65760203660031901126101d65761016e611754565b8354926001600160a01b038085169390929190338590036101c95750501680926bffffffffffffffffffffffff60a01b161783557f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e08380a380f35b516330cd747160e01b8152fd5b8280fd5b8382346101f757816003193601126101f757602090516127118152f35b5080fd5b508234610224576020366003190112610224575061021b60209235611905565b90519015158152f35b80fd5b508290346101f75760a03660031901126101f7576001600160a01b036024358181169285359290918490036104965760643567ffffffffffffffff8111610492576102759036908801611850565b9091608435913388526020936001855260ff868a205416156104825760ff60025416610472573389528985526102b1868a2054600354906118d7565b421061046257839160ff6008541615610452578815610442576102e1916102d99136916117ec565b6044356119df565b926102eb84611af1565b8689526009855285892054610432578015808061041f575b156103c65750505096857fc534bc097f8c88bbddb29e9f15a194981e3bf3d20f6491531025da3b7ae390c795969798338a52600685526003610348878c2054426118d7565b945b8b60075489519261035a84611792565b83528883019081528980840192898452606085019788528d815260098b522092518355516001830155516002820155019151166bffffffffffffffffffffffff60a01b8254161790556103ac86611b63565b33885282524283882055600754918351928352820152a380f35b939193159081610414575b5061040557958097989160037fc534bc097f8c88bbddb29e9f15a194981e3bf3d20f6491531025da3b7ae390c7979861034a565b845162d36c8560e81b81528990fd5b90504210158a6103d1565b50338a5260068652868a20541515610303565b8551630479201160e41b81528a90fd5b8651634971ba2d60e01b81528b90fd5b86516309fc654f60e31b81528b90fd5b855163aa9a98df60e01b81528a90fd5b8551633b3b4caf60e21b81528a90fd5b8551631a40715960e11b81528a90fd5b8580fd5b5f80fd5b8382346101f757816003193601126101f7576020906003549051908152f35b5090346101d65760203660031901126101d6576080928291358152600a60205220805491600182015491600360ff60028301541691015492825194855260208501521515908301526060820152f35b8382346101f757816003193601126101f75760209060ff6008541690519015158152f35b50346101d65760203660031901126101d657813591338452600160205260ff82852054161561059957507f66da5e9571bd436cc02d286bd2ea75645a77cd7af578af47e89dfe49eae832a9903384526006602052808420928084549455815193845260208401523392a280f35b9051631a40715960e11b8152fd5b5090346101d65760203660031901126101d657602092829135808252600985526105d383832054611929565b81526009845220549051908152f35b5090346101d65760203660031901126101d65760209282916001600160a01b0361060a611754565b168252845220549051908152f35b508290346101f7576106293661187e565b929391903386526020936001855260ff8488205416156108295760ff600254166108195733875287855261066384882054600354906118d7565b42106108095760ff60085416156107f957956106a581989361069f8794899a61071c9a86526009875261069889872054611929565b36916117ec565b906119df565b6106ae81611af1565b8782526009835284822054908082156107e9575b156107db575b5f80516020611cf983398151915254865163022f65e760e31b815286810193845260208401929092526001600160f81b031984166040840152909788936001600160a01b0390921692849291839160600190565b03925af180156107d1578690610784575b7f5a9071456a6d7339681d4deb1d42c3b95c7d6c0a22be21b87b4cf5225a2be304945085875260098452828720908155600160075491015561076e85611b63565b338652825242818620556007549051908152a280f35b508284813d83116107ca575b61079a81836117ca565b81010312610496577f5a9071456a6d7339681d4deb1d42c3b95c7d6c0a22be21b87b4cf5225a2be304935161072d565b503d610790565b82513d88823e3d90fd5b506107e4611bfd565b6106c8565b91506107f3611bfd565b916106c2565b83516309fc654f60e31b81528890fd5b835163aa9a98df60e01b81528890fd5b8351633b3b4caf60e21b81528890fd5b8351631a40715960e11b81528890fd5b5090346101d65760203660031901126101d6573582526009602090815291819020805460018201546002830154600390930154845192835294820152918201526001600160a01b039091166060820152608090f35b8382346101f757816003193601126101f757905490516001600160a01b039091168152602090f35b5090346101d65760203660031901126101d6576108d1611754565b83546001600160a01b039290831633036109215750168083526001602052908220805460ff191690557f1589f8555933761a3cff8aa925061be3b46e2dd43f621322ab611d300f62b1d98280a280f35b83516330cd747160e01b8152fd5b5090346101d657826003193601126101d65782546001600160a01b0316330361098c575060207f62e78cea01bee320cd4e420270b5ea74000d11b0c9f74754ebdbfc544b05a25891600160ff19600254161760025551338152a180f35b90516330cd747160e01b8152fd5b5090346101d65760203660031901126101d6578254813591906001600160a01b031633036109fc5750907f2631e03375b3a2b2f48c9fecd1497fcb155d672fb020c3ab415c14bbabb18a7391600354908060035582519182526020820152a180f35b82516330cd747160e01b8152fd5b8382346101f75760203660031901126101f75760209181906001600160a01b03610a32611754565b1681526006845220549051908152f35b8382346101f757816003193601126101f75760209060ff6002541690519015158152f35b8382346101f75760203660031901126101f75760209181906001600160a01b03610a8e611754565b1681526005845220549051908152f35b5090346101d657610aae3661187e565b929491903387526020936001855260ff848920541615610e3c5760ff60025416610e2c57338852858552610ae884892054600354906118d7565b4210610e1c5760ff6008541615610e0c5786885260098552610b0c84892054611929565b610b1587611905565b610dfc579161069f610b2b9289959436916117ec565b610b3481611af1565b858352600984528282812054828315610dee575b8115610dde575b5f80516020611cf983398151915280548651631d44e90160e21b81528a810193845260208401949094526001600160f81b031997909716604083015291956001600160a01b03929188918891829003606001908290879087165af1958615610dd4578396610da1575b50610bc1611bfd565b91878760648b87858754168b519889958694637702dcff60e01b86528501528b602485015260448401525af1928315610d975790889392918593610d61575b50610c0b3089611c7e565b610c153389611c7e565b8a8552600984528685205491838315610d51575b15610d41575b5487516303056db360e31b81528b810193845260208401949094526001600160f81b0319861660408401529294859392849003606001928492165af1908115610d37578891610cde575b50907f4f65ad24a1ac4a0a0196f1e65903bd59679ea7d13ed4f245e031b85e0d96850995606095949392888a5260098652838a209081556001600754910155610cc188611b63565b33895284524282892055600754938251948552840152820152a280f35b9480949392915085813d8311610d30575b610cf981836117ca565b81010312610496579351929391929091907f4f65ad24a1ac4a0a0196f1e65903bd59679ea7d13ed4f245e031b85e0d968509610c79565b503d610cef565b83513d8a823e3d90fd5b9250610d4b611bfd565b92610c2f565b9250610d5b611bfd565b92610c29565b9380929550849193503d8311610d90575b610d7c81836117ca565b81010312610496578992879251915f610c00565b503d610d72565b86513d86823e3d90fd5b87809297508194503d8311610dcd575b610dbb81836117ca565b8101031261049657889151945f610bb8565b503d610db1565b85513d85823e3d90fd5b9050610de8611bfd565b90610b4f565b50610df7611bfd565b610b48565b8351630a21660f60e41b81528690fd5b83516309fc654f60e31b81528690fd5b835163aa9a98df60e01b81528690fd5b8351633b3b4caf60e21b81528690fd5b8351631a40715960e11b81528690fd5b5090346101d65760203660031901126101d657610e67611754565b83546001600160a01b039290831633036109215750169081835260016020528220600160ff198254161790557fae9c2c6481964847714ce58f65a7f6dcc41d0d8394449bacdf161b5920c4744a8280a280f35b5090346101d657826003193601126101d65782546001600160a01b0316330361098c575060207f5db9ee0a495bf2e6ff9c91a7834c1ba4fdd244a5e8aa4e537bd38aeae4b073aa9160ff196002541660025551338152a180f35b5090346101d657826003193601126101d657338352600160205260ff8284205416156105995760ff60025416610f98576008549060ff821615610f8a575060ff191660085560075490519081527f0d12a96208f78b6b173d4bc5f7de1d8a9377c4e33639c8ef954056f7d350858790602090a180f35b82516309fc654f60e31b8152fd5b9051633b3b4caf60e21b8152fd5b50346101d657600319906060368301126112e65782359267ffffffffffffffff906024358281116112e257610fde9036908301611832565b916044359081116112e257610ff69036908301611832565b90858752602091600a835260ff6002868a200154166112d35784519561101b876117ae565b61105260019760018152853681830137898b52600a86526003888c2001548b5260098652878b205461104c826118e4565b526119a8565b888a52600a85526001878b200154036112c3578789527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808552868a2054156112b357888a52845285892086518154808252918b52858b2090988991828801918d5b8986821061129d57505050506110cc925003886117ca565b8451968785019788861161128a578701809811611277579084918751888189519b868b019c8d818985016110ff92611bb7565b820190878201520385810183520161111790826117ca565b8b600160a01b600190037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497035416928a51968795869485936378542ead60e01b85528b8501606090526064850161116c91611975565b8285820301602486015261117f91611bd8565b9083820301604484015261119291611bd8565b03925af190811561126d578891611233575b5015611225575080835192867f1af0453083661051f6e56e5c070792320652e612154bf9af8637bb1e7655b99d8980a2805181010312610492577fa1cb19133026dd70867e1fbd4d02beda96e459f622fbb0326ec7dca1e35a09f9935190858752600a815283872060028101600160ff19825416179055548352820152a280f35b835163cf6c44e960e01b8152fd5b90508281813d8311611266575b61124a81836117ca565b8101031261126257518015158103611262575f6111a4565b8780fd5b503d611240565b85513d8a823e3d90fd5b634e487b7160e01b8a526011845260248afd5b634e487b7160e01b8b526011855260248bfd5b835485528d9550909301929181019181016110b4565b865163d66ca67560e01b81528490fd5b85516313b304fb60e21b81528390fd5b50835163dbde098160e01b8152fd5b8680fd5b8380fd5b8382346101f757816003193601126101f7576020906007549051908152f35b509190346104965760208060031936011261049657813593335f526001926001835260ff825f205416156105995760ff60025416610f9857335f5260058352611358825f2054600354906118d7565b421061165e57855f5260098352611371825f2054611929565b815161137c816117ae565b600181528381019484368737875f5260098552835f205461139c836118e4565b526113a6826119a8565b927f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf009283549760018060a01b03807f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b15610496575f89518092637d6e912360e11b82528c88830152818381611422602482018b611975565b03925af1801561165457611641575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416803b1561163d578a88518092633263b83b60e01b82528c8783015260606024830152818381611487606482018a611975565b63124bd04b60e01b604483015203925af1801561163357908b9161161b575b508990527f878245876662ba28a480c5ea71726db859fb50222b0a3d7cbbc21cfa336faf01808952878b205461160b57898b528852868a2091519267ffffffffffffffff84116115f8576801000000000000000084116115f8575081548383558084106115d1575b50908952868920895b8381106115c05750505050507f81bca54e6c48c44ec959a5581796be73005cbde51156a29bae607f52e9baa16c94959681611554600393546118b5565b90556007549284519361156685611792565b84528584019081528484019089825260608501928352888a52600a8752858a2094518555516001850155600284019051151560ff80198354169116179055519101553385526005825242818620556007549051908152a280f35b825182820155918801918401611517565b828b5284848a8d2092830192015b8281106115ed57505061150e565b8c81550185906115df565b634e487b7160e01b8b526041905260248afd5b8751633f06d22b60e01b81528490fd5b6116249061176a565b61162f57895f6114a6565b8980fd5b88513d8d823e3d90fd5b8a80fd5b61164c919b5061176a565b5f995f611431565b89513d5f823e3d90fd5b905163aa9a98df60e01b8152fd5b5034610496576020366003190112610496576020906001600160a01b03611691611754565b165f526001825260ff815f20541690519015158152f35b905034610496575f36600319011261049657335f52600160205260ff825f20541615611746575060ff60025416611739576008549160ff831661172b577fe80225e70e6677ae32f4a6ac9fd478d50cf5e1bc489994c68c7075fe35ec5ee26020848460016117176007546118b5565b928360075560ff19161760085551908152a1005b90516309fc654f60e31b8152fd5b51633b3b4caf60e21b8152fd5b631a40715960e11b81529050fd5b600435906001600160a01b038216820361049657565b67ffffffffffffffff811161177e57604052565b634e487b7160e01b5f52604160045260245ffd5b6080810190811067ffffffffffffffff82111761177e57604052565b6040810190811067ffffffffffffffff82111761177e57604052565b90601f8019910116810190811067ffffffffffffffff82111761177e57604052565b92919267ffffffffffffffff821161177e5760405191611816601f8201601f1916602001846117ca565b829481845281830111610496578281602093845f960137010152565b9080601f830112156104965781602061184d933591016117ec565b90565b9181601f840112156104965782359167ffffffffffffffff8311610496576020838186019501011161049657565b60606003198201126104965760043591602435916044359067ffffffffffffffff8211610496576118b191600401611850565b9091565b5f1981146118c35760010190565b634e487b7160e01b5f52601160045260245ffd5b919082018092116118c357565b8051156118f15760200190565b634e487b7160e01b5f52603260045260245ffd5b5f526009602052600260405f2001548015159081611921575090565b905042101590565b1561193057565b60405162461bcd60e51b815260206004820152601e60248201527f4648452076616c7565206d75737420626520696e697469616c697a65642e00006044820152606490fd5b9081518082526020808093019301915f5b828110611994575050505090565b835185529381019392810192600101611986565b6040516119d9816119c56020820194604086526060830190611975565b30604083015203601f1981018352826117ca565b51902090565b6020611a2f9260018060a01b0392835f80516020611cf98339815191525416905f60405180978195829463196d0b9b60e01b84526004840152336024840152608060448401526084830190611bd8565b6004606483015203925af1918215611ab2575f92611abd575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b1561049657604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af18015611ab257611aa9575090565b61184d9061176a565b6040513d5f823e3d90fd5b9091506020813d602011611ae9575b81611ad9602093836117ca565b810103126104965751905f611a48565b3d9150611acc565b15611af857565b60405162461bcd60e51b815260206004820152603b60248201527f4648452076616c7565206e6f7420696e697469616c697a65642e20557365204660448201527f48452e61734575696e74333220746f20696e697469616c697a652e00000000006064820152608490fd5b805f526009602052611b7a60405f20543090611c7e565b805f526009602052611b9160405f20543390611c7e565b5f526009602052611bb560405f20805490600360018060a01b039101541690611c7e565b565b5f5b838110611bc85750505f910152565b8181015183820152602001611bb9565b90602091611bf181518092818552858086019101611bb7565b601f01601f1916010190565b5f80516020611cf983398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115611ab2575f91611c4f575090565b90506020813d602011611c76575b81611c6a602093836117ca565b81010312610496575190565b3d9150611c5d565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b1561049657604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015611ab257611cef5750565b611bb59061176a56fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701a164736f6c6343000818000a";
+
+type GiftCardFHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: GiftCardFHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class GiftCardFHE__factory extends ContractFactory {
+  constructor(...args: GiftCardFHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      GiftCardFHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): GiftCardFHE__factory {
+    return super.connect(runner) as GiftCardFHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): GiftCardFHEInterface {
+    return new Interface(_abi) as GiftCardFHEInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): GiftCardFHE {
+    return new Contract(address, _abi, runner) as unknown as GiftCardFHE;
+  }
+}